@@ -1,22 +1,26 @@
 import { CognitoIdentityProviderClient } from "@aws-sdk/client-cognito-identity-provider";
-import * as dotenv from "dotenv";
-
-// Load the appropriate .env file based on the NODE_ENV environment variable
-const env: string = process.env.NODE_ENV || "development"; // Default to 'dev' if NODE_ENV is not set
-dotenv.config({ path: `.env.${env}` });
+import { AppError } from "../utils/error-handler";
+import config from "./config";
 
 // Initialize Cognito client
 const cognitoClient = new CognitoIdentityProviderClient({
-  region: process.env.AWS_REGION as string,
-  ...(process.env.USE_AWS_CREDENTIALS === "true"
-    ? {
-        credentials: {
-          accessKeyId: process.env.AWS_ACCESS_KEY_ID as string,
-          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY as string,
-        },
-      }
-    : {}), // Use IAM role credentials when running in AWS
+  region: config.aws.region,
+  credentials: config.aws.credentials, // Unset: use IAM role credentials when running in AWS
 });
 
+// The in-memory identity provider has no user pool, so the admin operations that still call Cognito
+// directly (admin routes, account deletion, data export) are refused instead of failing against AWS
+if (config.identityProvider === "memory") {
+  cognitoClient.middlewareStack.add(
+    () => async () => {
+      throw new AppError(
+        "This operation is not available with the in-memory identity provider",
+        501,
+        "UNSUPPORTED_BY_IDENTITY_PROVIDER"
+      );
+    },
+    { step: "initialize", name: "memoryIdentityProviderGuard" }
+  );
+}
 
 export default cognitoClient;
@@ -0,0 +1,434 @@
+import { EMAIL_REGEX } from "./constants";
+
+export const ENVIRONMENTS = ["development", "production", "test"];
+export type Environment = "development" | "production" | "test";
+
+// Raw settings as strings, keyed by environment variable name
+export type RawSettings = Record<string, string | undefined>;
+
+/**
+ * One setting, read from the environment variable of the same name.
+ */
+export interface SettingSpec {
+  type: "string" | "integer" | "boolean" | "list" | "url" | "email";
+  description: string;
+  // Allowed values (for lists, of every item)
+  values?: string[];
+  // Lowest allowed value of an integer
+  min?: number;
+  // Used when the variable is unset; either one value or one per environment
+  default?: string | Partial<Record<Environment, string>>;
+  // Whether the variable must be set, possibly depending on other settings
+  required?: boolean | ((raw: RawSettings) => boolean);
+  // Extra check across settings; returns a problem description
+  check?: (value: string, raw: RawSettings) => string | undefined;
+  // Never printed (`config:check`, logs)
+  secret?: boolean;
+}
+
+const isProduction = (raw: RawSettings) => raw.NODE_ENV === "production";
+const usesCognito = (raw: RawSettings) => (raw.IDENTITY_PROVIDER || "cognito") === "cognito";
+const usesDynamoDbRateLimits = (raw: RawSettings) =>
+  (raw.RATE_LIMIT_STORE || (isProduction(raw) ? "dynamodb" : "memory")) === "dynamodb";
+const checksRevocation = (raw: RawSettings) => raw.TOKEN_CHECK_REVOCATION !== "false";
+
+export const SETTINGS: Record<string, SettingSpec> = {
+  NODE_ENV: { type: "string", description: "Runtime environment", values: ENVIRONMENTS, default: "development" },
+  PORT: { type: "integer", description: "HTTP port of the standalone server", min: 1, default: "3010" },
+  TRUST_PROXY_HOPS: {
+    type: "integer",
+    description: "Reverse proxies in front of the standalone server whose X-Forwarded-For entries are trusted",
+    min: 0,
+    default: { development: "0", test: "0", production: "1" },
+  },
+  LOG_LEVEL: {
+    type: "string",
+    description: "Minimum log level",
+    values: ["fatal", "error", "warn", "info", "debug", "trace"],
+    default: "info",
+  },
+  API_BASE_URL: {
+    type: "url",
+    description: "Public base URL of this API, used to build links in emails",
+    required: isProduction,
+  },
+  CORS_ORIGINS: {
+    type: "list",
+    description: "Browser origins allowed to call the API with credentials",
+    default: {
+      development: "http://localhost:5173",
+      test: "http://localhost:5173",
+      production: "https://ai.jonathanmau.com,https://www.ai.jonathanmau.com,https://api.jonathanmau.com",
+    },
+  },
+  SUPPORT_EMAIL: {
+    type: "email",
+    description: "Sender of transactional emails and recipient of support requests",
+    default: "jonathan@jonathanmau.com",
+  },
+  SENTRY_DSN: { type: "string", description: "Sentry DSN; monitoring is off when unset", secret: true },
+
+  // AWS
+  AWS_REGION: { type: "string", description: "AWS region of Cognito, DynamoDB and SES", required: usesCognito },
+  USE_AWS_CREDENTIALS: {
+    type: "boolean",
+    description: "Use the access key below instead of the IAM role",
+    default: "false",
+  },
+  AWS_ACCESS_KEY_ID: {
+    type: "string",
+    description: "AWS access key id",
+    required: (raw) => raw.USE_AWS_CREDENTIALS === "true",
+    secret: true,
+  },
+  AWS_SECRET_ACCESS_KEY: {
+    type: "string",
+    description: "AWS secret access key",
+    required: (raw) => raw.USE_AWS_CREDENTIALS === "true",
+    secret: true,
+  },
+
+  // Identity provider
+  IDENTITY_PROVIDER: {
+    type: "string",
+    description: "Identity provider",
+    values: ["cognito", "memory"],
+    default: "cognito",
+    check: (value, raw) => (value === "memory" && isProduction(raw) ? `cannot be "memory" in production` : undefined),
+  },
+  AWS_COGNITO_USER_POOL_ID: { type: "string", description: "Cognito user pool id", required: usesCognito },
+  AWS_COGNITO_CLIENT_ID: { type: "string", description: "Cognito app client id", required: usesCognito },
+  AWS_COGNITO_CLIENT_SECRET: {
+    type: "string",
+    description: "Cognito app client secret",
+    required: usesCognito,
+    secret: true,
+  },
+  ADMIN_GROUP: { type: "string", description: "Cognito group allowed to use the admin routes", default: "admin" },
+
+  // Tokens
+  JWKS_CACHE_TTL_SECONDS: { type: "integer", description: "Signing key cache lifetime", min: 0, default: "86400" },
+  JWKS_REFRESH_COOLDOWN_SECONDS: {
+    type: "integer",
+    description: "Minimum time between signing key fetches",
+    min: 0,
+    default: "60",
+  },
+  JWKS_FILE: { type: "string", description: "Local JWKS file used instead of the identity provider's keys" },
+  TOKEN_ALLOWED_USES: {
+    type: "list",
+    description: "Token types accepted by authenticated routes",
+    values: ["access", "id"],
+    default: "access",
+  },
+  TOKEN_CLIENT_IDS: { type: "list", description: "App clients whose tokens are accepted" },
+  TOKEN_CLOCK_TOLERANCE_SECONDS: { type: "integer", description: "Allowed clock skew", min: 0, default: "5" },
+  TOKEN_CHECK_REVOCATION: {
+    type: "boolean",
+    description: "Reject tokens of logged-out sessions and signed-out users",
+    default: "true",
+  },
+
+  // Session cookies
+  SESSION_COOKIE_DOMAINS: { type: "list", description: "Parent domains the session cookies may be scoped to" },
+  SESSION_COOKIE_SAMESITE: {
+    type: "string",
+    description: "SameSite attribute of the session cookies",
+    values: ["strict", "lax", "none"],
+    default: "strict",
+  },
+  SESSION_COOKIE_SECURE: {
+    type: "boolean",
+    description: "Send the session cookies over HTTPS only",
+    default: { development: "false", test: "false", production: "true" },
+  },
+  SESSION_COOKIE_HOST_PREFIX: { type: "boolean", description: 'Name the cookies "__Host-..."', default: "false" },
+  SESSION_REFRESH_TOKEN_TTL_SECONDS: {
+    type: "integer",
+    description: "Lifetime of the refresh token cookie",
+    min: 1,
+    default: "2592000",
+  },
+
+  // Email
+  EMAIL_TRANSPORT: {
+    type: "string",
+    description: "How emails are delivered",
+    values: ["ses", "smtp", "outbox"],
+    default: "ses",
+  },
+  EMAIL_OUTBOX_DIR: { type: "string", description: "Directory of the outbox transport", default: ".outbox" },
+  SMTP_HOST: { type: "string", description: "SMTP server", required: (raw) => raw.EMAIL_TRANSPORT === "smtp" },
+  SMTP_PORT: { type: "integer", description: "SMTP port", min: 1, default: "587" },
+  SMTP_SECURE: { type: "boolean", description: "Connect to the SMTP server over TLS", default: "false" },
+  SMTP_USER: { type: "string", description: "SMTP user name" },
+  SMTP_PASSWORD: { type: "string", description: "SMTP password", secret: true },
+
+  // Storage
+  ACCOUNT_DELETION_TABLE: {
+    type: "string",
+    description: "DynamoDB table of pending account deletions; per process when unset",
+    required: isProduction,
+  },
+  ACCOUNT_DELETION_GRACE_DAYS: {
+    type: "integer",
+    description: "Days before a requested account deletion is carried out",
+    min: 0,
+    default: "30",
+  },
+  DATA_EXPORT_TABLE: {
+    type: "string",
+    description: "DynamoDB table of data exports; per process when unset",
+    required: isProduction,
+  },
+  SUPPORT_TICKET_TABLE: {
+    type: "string",
+    description: "DynamoDB table of support tickets; per process when unset",
+    required: isProduction,
+  },
+  PROFILE_CACHE_TTL_SECONDS: {
+    type: "integer",
+    description: "Profile cache lifetime, 0 disables",
+    min: 0,
+    default: "60",
+  },
+  PROFILE_CACHE_TABLE: { type: "string", description: "DynamoDB table shared by the profile caches" },
+
+  // Rate limiting
+  RATE_LIMIT_STORE: {
+    type: "string",
+    description: "Where rate limit counters are kept",
+    values: ["memory", "dynamodb"],
+    default: { development: "memory", test: "memory", production: "dynamodb" },
+  },
+  RATE_LIMIT_TABLE: {
+    type: "string",
+    description: "DynamoDB table of rate limit counters",
+    required: usesDynamoDbRateLimits,
+  },
+  AUDIT_EVENT_TABLE: {
+    type: "string",
+    description: "DynamoDB table of authentication audit events; per process when unset",
+    required: isProduction,
+  },
+  AUDIT_RETENTION_DAYS: {
+    type: "integer",
+    description: "Days audit events are kept before DynamoDB TTL removes them",
+    min: 1,
+    default: "365",
+  },
+  LOGIN_GUARD_TABLE: {
+    type: "string",
+    description: "DynamoDB table of failed sign-in counts and lockouts; per process when unset",
+    required: isProduction,
+  },
+  TOKEN_REVOCATION_TABLE: {
+    type: "string",
+    description: "DynamoDB table of revoked sessions; per process when unset",
+    required: (raw) => isProduction(raw) && checksRevocation(raw),
+  },
+};
+
+// A parsed setting value
+export type SettingValue = string | number | boolean | string[] | undefined;
+
+// Parse one set value; returns a problem description when it is invalid
+export const parseSetting = (spec: SettingSpec, value: string): { value?: SettingValue; problem?: string } => {
+  const outOfValues = (item: string) => spec.values && spec.values.indexOf(item) === -1;
+  const allowed = () => `must be one of ${spec.values.join(", ")}`;
+
+  switch (spec.type) {
+    case "integer": {
+      if (!/^-?\d+$/.test(value)) return { problem: `must be an integer, got "${value}"` };
+      const number = parseInt(value, 10);
+      if (spec.min !== undefined && number < spec.min) return { problem: `must be at least ${spec.min}` };
+      return { value: number };
+    }
+    case "boolean":
+      if (value !== "true" && value !== "false") return { problem: `must be "true" or "false", got "${value}"` };
+      return { value: value === "true" };
+    case "list": {
+      const items = value
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item);
+      const invalid = items.filter(outOfValues);
+      if (invalid.length) return { problem: `has invalid items ${invalid.join(", ")}; ${allowed()}` };
+      return { value: items };
+    }
+    case "url":
+      if (!/^https?:\/\/[^\s/]+/.test(value)) return { problem: `must be an http(s) URL, got "${value}"` };
+      return { value: value.replace(/\/+$/, "") };
+    case "email":
+      if (!EMAIL_REGEX.test(value)) return { problem: `must be an email address, got "${value}"` };
+      return { value };
+    default:
+      if (outOfValues(value)) return { problem: `${allowed()}, got "${value}"` };
+      return { value };
+  }
+};
+
+/**
+ * The application configuration, validated and typed.
+ */
+export interface AppConfig {
+  env: Environment;
+  port: number;
+  // Proxies that append to X-Forwarded-For; the client IP is the entry this many hops from the end
+  trustProxyHops: number;
+  logLevel: string;
+  apiPrefix: string;
+  // "cognito" (default) or "memory" for local development and tests without AWS
+  identityProvider: "cognito" | "memory";
+  // Public base URL of this API, used to build links in emails
+  apiBaseUrl: string;
+  corsOrigins: string[];
+  supportEmail: string;
+  sentryDsn?: string;
+  aws: {
+    region?: string;
+    // Explicit credentials; the IAM role's are used otherwise
+    credentials?: { accessKeyId: string; secretAccessKey: string };
+  };
+  cognito: {
+    userPoolId?: string;
+    clientId?: string;
+    clientSecret?: string;
+  };
+  accountDeletion: {
+    tableName?: string;
+    gracePeriodDays: number;
+  };
+  email: {
+    // "ses" (default), "smtp", or "outbox" to write messages to files during local development
+    transport: string;
+    outboxDir: string;
+    smtp: { host: string; port: number; secure: boolean; user?: string; password?: string }; // host is required for "smtp"
+  };
+  dataExport: { tableName?: string };
+  supportTickets: { tableName?: string };
+  profileCache: {
+    // How long /me may serve a cached profile; 0 disables the cache
+    ttlSeconds: number;
+    // Optional DynamoDB table shared by all instances, behind the per-process cache
+    tableName?: string;
+  };
+  jwks: {
+    // Signing keys are refetched after this long, or sooner when a token names an unknown key
+    ttlSeconds: number;
+    // Minimum time between fetches, so tokens with unknown key ids cannot trigger a fetch per request
+    refreshCooldownSeconds: number;
+    // Load keys from a local JWKS file instead of the identity provider (offline development)
+    file?: string;
+  };
+  tokenValidation: {
+    // Token types accepted by `server.authentication` ("access", "id")
+    allowedTokenUses: string[];
+    // App clients whose tokens are accepted; empty means the identity provider's own client
+    clientIds: string[];
+    // Allowed clock skew when checking exp, nbf and iat
+    clockToleranceSeconds: number;
+    // Look tokens up in the revocation store (see `tokenRevocation`) unless a route opts out
+    checkRevocation: boolean;
+  };
+  session: {
+    // Parent domains the session cookies may be scoped to (e.g. ".example.com"); the one matching the request host
+    // is used, otherwise cookies are host-only
+    cookieDomains: string[];
+    sameSite: "strict" | "lax" | "none";
+    secure: boolean;
+    // Prefix cookie names with "__Host-", which pins them to this host (no domain, secure, path "/")
+    hostPrefix: boolean;
+    // Lifetime of the refresh token and email cookies; match the app client's refresh token expiration
+    refreshTokenTtlSeconds: number;
+  };
+  rateLimit: {
+    // "memory" counts per process; "dynamodb" shares counters across instances (Lambda containers)
+    store: "memory" | "dynamodb";
+    tableName?: string;
+  };
+  auditEvents: {
+    // Without a table, events are kept per process (development)
+    tableName?: string;
+    retentionDays: number;
+  };
+  loginGuard: {
+    // Shares failure counts and lockouts across instances; without it they are tracked per process
+    tableName?: string;
+  };
+  tokenRevocation: {
+    // Shares logged-out sessions across instances; without it each process only knows its own logouts
+    tableName?: string;
+  };
+  // Cognito group whose members may use the admin routes
+  adminGroup: string;
+}
+
+// Arrange the parsed settings into the application configuration
+export const buildConfig = (settings: Record<string, SettingValue>): AppConfig => {
+  const s = settings as Record<string, any>;
+  return {
+    env: s.NODE_ENV,
+    port: s.PORT,
+    trustProxyHops: s.TRUST_PROXY_HOPS,
+    logLevel: s.LOG_LEVEL,
+    apiPrefix: "/api/v1",
+    identityProvider: s.IDENTITY_PROVIDER,
+    apiBaseUrl: s.API_BASE_URL || `http://localhost:${s.PORT}`,
+    corsOrigins: s.CORS_ORIGINS,
+    supportEmail: s.SUPPORT_EMAIL,
+    sentryDsn: s.SENTRY_DSN,
+    aws: {
+      region: s.AWS_REGION,
+      credentials: s.USE_AWS_CREDENTIALS
+        ? { accessKeyId: s.AWS_ACCESS_KEY_ID, secretAccessKey: s.AWS_SECRET_ACCESS_KEY }
+        : undefined,
+    },
+    cognito: {
+      userPoolId: s.AWS_COGNITO_USER_POOL_ID,
+      clientId: s.AWS_COGNITO_CLIENT_ID,
+      clientSecret: s.AWS_COGNITO_CLIENT_SECRET,
+    },
+    accountDeletion: {
+      tableName: s.ACCOUNT_DELETION_TABLE,
+      gracePeriodDays: s.ACCOUNT_DELETION_GRACE_DAYS,
+    },
+    email: {
+      transport: s.EMAIL_TRANSPORT,
+      outboxDir: s.EMAIL_OUTBOX_DIR,
+      smtp: {
+        host: s.SMTP_HOST,
+        port: s.SMTP_PORT,
+        secure: s.SMTP_SECURE,
+        user: s.SMTP_USER,
+        password: s.SMTP_PASSWORD,
+      },
+    },
+    dataExport: { tableName: s.DATA_EXPORT_TABLE },
+    supportTickets: { tableName: s.SUPPORT_TICKET_TABLE },
+    profileCache: { ttlSeconds: s.PROFILE_CACHE_TTL_SECONDS, tableName: s.PROFILE_CACHE_TABLE },
+    jwks: {
+      ttlSeconds: s.JWKS_CACHE_TTL_SECONDS,
+      refreshCooldownSeconds: s.JWKS_REFRESH_COOLDOWN_SECONDS,
+      file: s.JWKS_FILE,
+    },
+    tokenValidation: {
+      allowedTokenUses: s.TOKEN_ALLOWED_USES,
+      clientIds: s.TOKEN_CLIENT_IDS || [],
+      clockToleranceSeconds: s.TOKEN_CLOCK_TOLERANCE_SECONDS,
+      checkRevocation: s.TOKEN_CHECK_REVOCATION,
+    },
+    session: {
+      cookieDomains: s.SESSION_COOKIE_DOMAINS || [],
+      sameSite: s.SESSION_COOKIE_SAMESITE,
+      secure: s.SESSION_COOKIE_SECURE,
+      hostPrefix: s.SESSION_COOKIE_HOST_PREFIX,
+      refreshTokenTtlSeconds: s.SESSION_REFRESH_TOKEN_TTL_SECONDS,
+    },
+    rateLimit: { store: s.RATE_LIMIT_STORE, tableName: s.RATE_LIMIT_TABLE },
+    auditEvents: { tableName: s.AUDIT_EVENT_TABLE, retentionDays: s.AUDIT_RETENTION_DAYS },
+    loginGuard: { tableName: s.LOGIN_GUARD_TABLE },
+    tokenRevocation: { tableName: s.TOKEN_REVOCATION_TABLE },
+    adminGroup: s.ADMIN_GROUP,
+  };
+};
@@ -1,6 +1,10 @@
-import * as dotenv from "dotenv";
-dotenv.config();
-export default {
-  port: parseInt(process.env.PORT),
-  apiPrefix: "/api/v1",
-};
+import { AppConfig } from "./config-schema";
+import { loadConfig } from "./load-config";
+
+export { AppConfig } from "./config-schema";
+
+// Loaded and validated once, on first import; an invalid configuration stops the process before it serves requests.
+// Settings are documented in config-schema.ts; `npm run config:check` validates a file without starting the server.
+const config: AppConfig = loadConfig();
+
+export default config;
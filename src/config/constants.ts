@@ -10,4 +10,16 @@ export const AUTH_TOKEN = "authToken";
 export const REFRESH_TOKEN = "refreshToken";
 export const REFRESH_TOKEN_AUTH = "REFRESH_TOKEN_AUTH";
 
-export const SUPPORT_EMAIL = "jonathan@jonathanmau.com";
\ No newline at end of file
+// Double-submit CSRF token: readable cookie echoed back by the client in a header
+export const CSRF_TOKEN = "csrfToken";
+export const CSRF_HEADER = "X-CSRF-Token";
+
+// Cognito caps access token validity at one day
+export const ACCESS_TOKEN_MAX_LIFETIME_SECONDS = 24 * 60 * 60;
+
+// Issuer shown in authenticator apps for TOTP MFA
+export const MFA_ISSUER = "jonathanmau.com";
+
+// How long an emailed data export download link stays valid
+export const DATA_EXPORT_LINK_TTL_HOURS = 24;
+export const DATA_EXPORT_FILENAME = "account-data.json";
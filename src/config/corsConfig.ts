@@ -1,22 +1,18 @@
+import config from "./config";
+
 const corsConfig = {
-  development: {
-    origin: "http://localhost:5173", // Allow local development frontend
-    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"], // Added OPTIONS for preflight
-    credentials: true, // Allow credentials to be included
-    allowedHeaders: ["Content-Type", "Authorization", "X-Request-ID"], // Ensure consistent casing
-    exposedHeaders: ["X-Request-ID"],
-  },
-  production: {
-    origin: [
-      "https://ai.jonathanmau.com",
-      "https://www.ai.jonathanmau.com",
-      "https://api.jonathanmau.com", // Add this line
-    ],
-    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"], // Added OPTIONS for preflight
-    credentials: true, // Enable credentials for cookies
-    allowedHeaders: ["Content-Type", "Authorization", "X-Request-ID", "Cookie"], // Ensure consistent casing
-    exposedHeaders: ["X-Request-ID"],
-  },
+  origin: config.corsOrigins, // CORS_ORIGINS; the local development frontend outside production
+  methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"], // Added OPTIONS for preflight
+  credentials: true, // Enable credentials for cookies
+  allowedHeaders: ["Content-Type", "Authorization", "X-Request-ID", "X-CSRF-Token", "Cookie"], // Ensure consistent casing
+  exposedHeaders: [
+    "X-Request-ID",
+    "X-CSRF-Token",
+    "Retry-After",
+    "RateLimit-Limit",
+    "RateLimit-Remaining",
+    "RateLimit-Reset",
+  ],
 };
 
-export default corsConfig;
\ No newline at end of file
+export default corsConfig;
@@ -0,0 +1,16 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import config from "./config";
+
+// Initialize DynamoDB client
+const dynamoClient = new DynamoDBClient({
+  region: config.aws.region,
+  credentials: config.aws.credentials, // Unset: use IAM role credentials when running in AWS
+});
+
+// Document client marshalls plain JavaScript objects to and from DynamoDB attribute values
+const dynamoDocClient = DynamoDBDocumentClient.from(dynamoClient, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+export default dynamoDocClient;
@@ -0,0 +1,130 @@
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import {
+  AppConfig,
+  buildConfig,
+  Environment,
+  RawSettings,
+  SETTINGS,
+  SettingValue,
+  parseSetting,
+} from "./config-schema";
+
+const REDACTED = "[redacted]";
+
+/**
+ * Invalid configuration, listing every problem found rather than the first.
+ */
+export class ConfigError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+    this.problems = problems;
+  }
+}
+
+/**
+ * Reads settings from a file: JSON (a flat object, or SAM's env.json with one object per function)
+ * or dotenv format.
+ */
+export const readSettingsFile = (path: string): RawSettings => {
+  const content = fs.readFileSync(path, "utf8");
+  if (!/\.json$/i.test(path)) {
+    return dotenv.parse(content);
+  }
+
+  const parsed = JSON.parse(content);
+  const keys = Object.keys(parsed);
+  const sections = keys.length && keys.every((key) => parsed[key] !== null && typeof parsed[key] === "object");
+  const settings: RawSettings = {};
+  for (const section of sections ? keys.map((key) => parsed[key]) : [parsed]) {
+    for (const name of Object.keys(section)) {
+      if (section[name] !== null && section[name] !== undefined) {
+        settings[name] = String(section[name]);
+      }
+    }
+  }
+  return settings;
+};
+
+/**
+ * Validates raw settings against the schema.
+ * @returns The configuration and the parsed settings it was built from, or every problem found
+ */
+export const validateSettings = (
+  raw: RawSettings
+): { config?: AppConfig; settings?: Record<string, SettingValue>; problems: string[] } => {
+  const environment = (raw.NODE_ENV || "development") as Environment;
+  const settings: Record<string, SettingValue> = {};
+  const problems: string[] = [];
+
+  for (const name of Object.keys(SETTINGS)) {
+    const spec = SETTINGS[name];
+    let value = raw[name];
+
+    if (value === undefined || value === "") {
+      const required = typeof spec.required === "function" ? spec.required(raw) : spec.required;
+      if (required) {
+        problems.push(`${name} is required (${spec.description})`);
+        continue;
+      }
+      value = typeof spec.default === "object" ? spec.default[environment] : spec.default;
+      if (value === undefined) continue;
+    }
+
+    const parsed = parseSetting(spec, value);
+    const problem = parsed.problem || (spec.check && spec.check(value, raw));
+    if (problem) {
+      problems.push(`${name} ${problem}`);
+      continue;
+    }
+    settings[name] = parsed.value;
+  }
+
+  return problems.length ? { problems } : { config: buildConfig(settings), settings, problems };
+};
+
+/**
+ * The configuration with every secret setting replaced by "[redacted]", safe to print or log.
+ */
+export const redactedConfig = (settings: Record<string, SettingValue>): AppConfig => {
+  const masked: Record<string, SettingValue> = {};
+  for (const name of Object.keys(settings)) {
+    masked[name] = SETTINGS[name].secret ? REDACTED : settings[name];
+  }
+  return buildConfig(masked);
+};
+
+const deepFreeze = <T>(value: T): T => {
+  for (const key of Object.keys(value)) {
+    const child = (value as any)[key];
+    if (child && typeof child === "object") deepFreeze(child);
+  }
+  return Object.freeze(value);
+};
+
+/**
+ * Loads the configuration once at startup.
+ * Sources, highest precedence first: the process environment, `.env.<NODE_ENV>`, `.env`, and the JSON or
+ * dotenv file named by CONFIG_FILE.
+ * @throws ConfigError listing every missing or invalid setting
+ */
+export const loadConfig = (): AppConfig => {
+  dotenv.config({ path: [`.env.${process.env.NODE_ENV || "development"}`, ".env"] });
+
+  const raw: RawSettings = process.env.CONFIG_FILE ? readSettingsFile(process.env.CONFIG_FILE) : {};
+  for (const name of Object.keys(SETTINGS)) {
+    if (process.env[name] !== undefined) raw[name] = process.env[name];
+  }
+
+  const { config, settings, problems } = validateSettings(raw);
+  if (!config) {
+    throw new ConfigError(problems);
+  }
+
+  // Serializing the configuration (logs, error reports) never reveals secrets
+  Object.defineProperty(config, "toJSON", { value: () => redactedConfig(settings) });
+  return deepFreeze(config);
+};
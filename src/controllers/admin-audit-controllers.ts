@@ -0,0 +1,39 @@
+import { FastifyPluginCallback } from "fastify";
+import { IAdminAuditEventQuery } from "./interface/admin-audit.interface";
+import { adminAuditEventListRequestSchema, adminAuditEventListResponseSchema } from "./schemas/admin-audit.schemas";
+
+import config from "../config/config";
+import { requireRole } from "../plugins/authorization";
+import { auditService } from "../services/audit-service";
+import { sendErrorResponse } from "../utils/error-handler";
+
+// Authentication audit trail for support staff; every route requires a signed-in member of the admin group
+export const adminAuditController: FastifyPluginCallback = (server, options, done) => {
+  server.addHook("preHandler", server.authentication);
+  server.addHook("preHandler", requireRole(config.adminGroup));
+
+  // **List a user's audit events, newest first, optionally within a time range and of one type**
+  server.get<{ Querystring: IAdminAuditEventQuery }>(
+    "/",
+    {
+      schema: {
+        querystring: adminAuditEventListRequestSchema.querystring,
+        response: adminAuditEventListResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { email, userId, from, to, type, limit, cursor } = request.query;
+        const result = await auditService.listEvents(
+          { email, userId },
+          { from, to, types: type ? [type] : undefined, limit, cursor }
+        );
+        return reply.send(result);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  done();
+};
@@ -0,0 +1,251 @@
+import { FastifyPluginCallback } from "fastify";
+import { IAdminUserListQuery, IAdminUserParams } from "./interface/admin-user.interface";
+import {
+  adminUserActionRequestSchema,
+  adminUserActionResponseSchema,
+  adminUserGetRequestSchema,
+  adminUserGetResponseSchema,
+  adminUserListRequestSchema,
+  adminUserListResponseSchema,
+  adminUserLockStatusResponseSchema,
+} from "./schemas/admin-user.schemas";
+
+import config from "../config/config";
+import { requireRole } from "../plugins/authorization";
+import { adminUserService } from "../services/admin-user-service";
+import { sendErrorResponse } from "../utils/error-handler";
+import { logAudit } from "../utils/logger";
+
+// User management for support staff; every route requires a signed-in member of the admin group.
+// `:username` is the Cognito username (URL-encoded), as returned by the list route.
+export const adminUserController: FastifyPluginCallback = (server, options, done) => {
+  server.addHook("preHandler", server.authentication);
+  server.addHook("preHandler", requireRole(config.adminGroup));
+
+  // **List users, optionally searching by email prefix or filtering by status**
+  server.get<{ Querystring: IAdminUserListQuery }>(
+    "/",
+    {
+      schema: {
+        querystring: adminUserListRequestSchema.querystring,
+        response: adminUserListResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await adminUserService.listUsers(request.query);
+        return reply.send(result);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Show a user's attributes, status and MFA settings**
+  server.get<{ Params: IAdminUserParams }>(
+    "/:username",
+    {
+      schema: {
+        params: adminUserGetRequestSchema.params,
+        response: adminUserGetResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const user = await adminUserService.getUser(request.params.username);
+        return reply.send(user);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Disable an account (also ends its sessions)**
+  server.post<{ Params: IAdminUserParams }>(
+    "/:username/disable",
+    {
+      schema: {
+        params: adminUserActionRequestSchema.params,
+        response: adminUserActionResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        await adminUserService.disableUser(request.params.username);
+        logAudit("admin_user_disable", {
+          requestId: request.id,
+          adminId: request.user.userId,
+          username: request.params.username,
+        });
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Re-enable a disabled account**
+  server.post<{ Params: IAdminUserParams }>(
+    "/:username/enable",
+    {
+      schema: {
+        params: adminUserActionRequestSchema.params,
+        response: adminUserActionResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        await adminUserService.enableUser(request.params.username);
+        logAudit("admin_user_enable", {
+          requestId: request.id,
+          adminId: request.user.userId,
+          username: request.params.username,
+        });
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Force a password reset (Cognito emails the user a code)**
+  server.post<{ Params: IAdminUserParams }>(
+    "/:username/reset-password",
+    {
+      schema: {
+        params: adminUserActionRequestSchema.params,
+        response: adminUserActionResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        await adminUserService.resetPassword(request.params.username);
+        logAudit("admin_user_reset_password", {
+          requestId: request.id,
+          adminId: request.user.userId,
+          username: request.params.username,
+        });
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Resend the sign-up confirmation code**
+  server.post<{ Params: IAdminUserParams }>(
+    "/:username/resend-confirmation",
+    {
+      schema: {
+        params: adminUserActionRequestSchema.params,
+        response: adminUserActionResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        await adminUserService.resendConfirmationCode(request.params.username);
+        logAudit("admin_user_resend_confirmation", {
+          requestId: request.id,
+          adminId: request.user.userId,
+          username: request.params.username,
+        });
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Confirm a sign-up without the emailed code**
+  server.post<{ Params: IAdminUserParams }>(
+    "/:username/confirm",
+    {
+      schema: {
+        params: adminUserActionRequestSchema.params,
+        response: adminUserActionResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        await adminUserService.confirmUser(request.params.username);
+        logAudit("admin_user_confirm", {
+          requestId: request.id,
+          adminId: request.user.userId,
+          username: request.params.username,
+        });
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Sign the user out of every session**
+  server.post<{ Params: IAdminUserParams }>(
+    "/:username/sign-out",
+    {
+      schema: {
+        params: adminUserActionRequestSchema.params,
+        response: adminUserActionResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        await adminUserService.signOutUser(request.params.username);
+        logAudit("admin_user_sign_out", {
+          requestId: request.id,
+          adminId: request.user.userId,
+          username: request.params.username,
+        });
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Show failed sign-ins and whether the login guard has locked the account**
+  server.get<{ Params: IAdminUserParams }>(
+    "/:username/lock",
+    {
+      schema: {
+        params: adminUserGetRequestSchema.params,
+        response: adminUserLockStatusResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const status = await adminUserService.getLockStatus(request.params.username);
+        return reply.send(status);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Lift a login guard lockout and clear the failure count**
+  server.post<{ Params: IAdminUserParams }>(
+    "/:username/unlock",
+    {
+      schema: {
+        params: adminUserActionRequestSchema.params,
+        response: adminUserActionResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        await adminUserService.unlockUser(request.params.username);
+        logAudit("admin_user_unlock", {
+          requestId: request.id,
+          adminId: request.user.userId,
+          username: request.params.username,
+        });
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  done();
+};
@@ -0,0 +1,142 @@
+import { FastifyPluginCallback } from "fastify";
+import { IDevEmailTemplateParams, IDevEmailTemplateQuery, IDevOutboxMessageParams } from "./interface/dev.interface";
+import {
+  devEmailTemplateListResponseSchema,
+  devEmailTemplatePreviewRequestSchema,
+  devOutboxListResponseSchema,
+  devOutboxMessageRequestSchema,
+  devOutboxMessageResponseSchema,
+} from "./schemas/dev.schemas";
+
+import config from "../config/config";
+import emailTransport, { OutboxEmailTransport } from "../services/email";
+import { catalogs, renderTemplate, TEMPLATE_NAMES, TemplateName, TemplateVariables } from "../services/email/templates";
+import { escapeHtml } from "../utils/html-utils";
+import { AppError, sendErrorResponse } from "../utils/error-handler";
+
+// Representative values for previewing each template
+const PREVIEW_VARIABLES: Record<TemplateName, TemplateVariables> = {
+  welcome: { firstName: "Jane" },
+  passwordChanged: { firstName: "Jane", changedAt: new Date(0).toISOString(), signedOut: true },
+  securityAlert: { firstName: "Jane", occurredAt: new Date(0).toISOString(), mfaEnabled: true },
+  accountLocked: { lockedUntil: new Date(0).toISOString() },
+  accountDeletionScheduled: {
+    firstName: "Jane",
+    deletionDate: new Date(0).toISOString(),
+    cancelUrl: "http://localhost:3010/api/v1/users/deletion/cancel?username=jane%40example.com&token=preview",
+  },
+  dataExportReady: {
+    downloadUrl: "http://localhost:3010/api/v1/users/export/download?id=preview&token=preview",
+    expiresInHours: "24",
+  },
+  supportAcknowledgment: { ticketId: "0f9c2b1e-5d3a-4c47-9a61-3b8e2f7d4c10" },
+  supportRequestNotification: {
+    ticketId: "0f9c2b1e-5d3a-4c47-9a61-3b8e2f7d4c10",
+    email: "jane@example.com",
+    message: "I can't sign in on my phone.\nIt says <code expired>.",
+    submittedAt: new Date(0).toISOString(),
+  },
+};
+
+// Development-only helpers, only registered outside production. The outbox routes are only added
+// when EMAIL_TRANSPORT=outbox, so `emailTransport` is the outbox there.
+export const devController: FastifyPluginCallback = (server, options, done) => {
+  // **List email templates and the locales they can be previewed in**
+  server.get(
+    "/email-templates",
+    {
+      schema: {
+        response: devEmailTemplateListResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      return reply.send({ templates: TEMPLATE_NAMES, locales: Object.keys(catalogs) });
+    }
+  );
+
+  // **Preview an email template rendered with sample data**
+  server.get<{ Params: IDevEmailTemplateParams; Querystring: IDevEmailTemplateQuery }>(
+    "/email-templates/:name",
+    {
+      schema: {
+        params: devEmailTemplatePreviewRequestSchema.params,
+        querystring: devEmailTemplatePreviewRequestSchema.querystring,
+      },
+    },
+    async (request, reply) => {
+      const { name } = request.params;
+      const { subject, text, html } = renderTemplate(name, request.query.locale, PREVIEW_VARIABLES[name]);
+
+      if (request.query.format === "text") {
+        return reply.type("text/plain; charset=utf-8").send(`Subject: ${subject}\n\n${text}`);
+      }
+      return reply.type("text/html; charset=utf-8").send(html);
+    }
+  );
+
+  if (config.email.transport !== "outbox") return done();
+
+  const outbox = emailTransport as OutboxEmailTransport;
+
+  // **List messages written to the email outbox**
+  server.get(
+    "/outbox",
+    {
+      schema: {
+        response: devOutboxListResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const messages = await outbox.list();
+        return reply.send({ messages });
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **View a single outbox message**
+  server.get<{ Params: IDevOutboxMessageParams }>(
+    "/outbox/:id",
+    {
+      schema: {
+        params: devOutboxMessageRequestSchema.params,
+        response: devOutboxMessageResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const message = await outbox.get(request.params.id);
+        if (!message) throw new AppError("Message not found", 404, "MESSAGE_NOT_FOUND");
+        return reply.send(message);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Render an outbox message as the recipient would see it**
+  server.get<{ Params: IDevOutboxMessageParams }>(
+    "/outbox/:id/html",
+    {
+      schema: {
+        params: devOutboxMessageRequestSchema.params,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const message = await outbox.get(request.params.id);
+        if (!message) throw new AppError("Message not found", 404, "MESSAGE_NOT_FOUND");
+
+        // Plain-text messages are shown as-is
+        const body = message.html || `<pre>${escapeHtml(message.text)}</pre>`;
+        return reply.type("text/html; charset=utf-8").send(body);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  done();
+};
@@ -0,0 +1,11 @@
+import { AuditEventType } from "../../services/audit-service";
+
+export interface IAdminAuditEventQuery {
+  email?: string;
+  userId?: string;
+  from?: string;
+  to?: string;
+  type?: AuditEventType;
+  limit?: number;
+  cursor?: string;
+}
@@ -0,0 +1,10 @@
+export interface IAdminUserListQuery {
+  search?: string;
+  status?: string;
+  limit?: number;
+  paginationToken?: string;
+}
+
+export interface IAdminUserParams {
+  username: string;
+}
@@ -0,0 +1,14 @@
+import { TemplateName } from "../../services/email/templates";
+
+export interface IDevOutboxMessageParams {
+  id: string;
+}
+
+export interface IDevEmailTemplateParams {
+  name: TemplateName;
+}
+
+export interface IDevEmailTemplateQuery {
+  locale?: string;
+  format: "html" | "text";
+}
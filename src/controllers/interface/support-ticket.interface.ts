@@ -0,0 +1,16 @@
+import { TicketStatus } from "../../services/support-ticket-service";
+
+export interface ISupportTicketListQuery {
+  status?: TicketStatus;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ISupportTicketParams {
+  ticketId: string;
+}
+
+export interface ISupportTicketUpdate {
+  status?: TicketStatus;
+  note?: string;
+}
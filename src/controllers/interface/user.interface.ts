@@ -20,6 +20,27 @@ export interface IUserEmail {
   };
 }
 
+export interface IUserAuthChallenge {
+  user: {
+    email: string;
+    challengeName: "SOFTWARE_TOKEN_MFA" | "SMS_MFA" | "NEW_PASSWORD_REQUIRED";
+    session: string;
+    code?: string;
+    newPassword?: string;
+    firstName?: string;
+    lastName?: string;
+  };
+}
+
+export interface IUserTokenRefresh {
+  refreshToken: string;
+  email: string;
+}
+
+export interface IUserLogout {
+  refreshToken?: string;
+}
+
 export interface IUserVerify {
   user: {
     email: string;
@@ -30,7 +51,6 @@ export interface ITokenBody {
   token: string;
 }
 
-
 export interface IUserForgotPassword {
   user: {
     email: string;
@@ -54,3 +74,49 @@ export interface IUserSupportRequest {
   email?: string;
   message: string;
 }
+
+export interface IUserUpdate {
+  user: {
+    firstName?: string;
+    lastName?: string;
+  };
+}
+
+export interface IUserChangePassword {
+  user: {
+    currentPassword: string;
+    newPassword: string;
+    signOutOtherSessions?: boolean;
+  };
+}
+
+export interface IUserMfaVerify {
+  code: string;
+  friendlyDeviceName?: string;
+}
+
+export interface IUserMfaPreference {
+  enabled: boolean;
+}
+
+export interface IUserDelete {
+  password: string;
+}
+
+export interface IUserCancelDeletion {
+  username: string;
+  token: string;
+}
+
+export interface IUserExport {
+  delivery?: "download" | "email";
+}
+
+export interface IUserExportDownload {
+  id: string;
+  token: string;
+}
+
+export interface IUserActivityQuery {
+  limit?: number;
+}
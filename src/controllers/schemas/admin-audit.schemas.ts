@@ -0,0 +1,60 @@
+import { FastifySchema } from "fastify";
+import { AUDIT_EVENT_TYPES } from "../../services/audit-service";
+
+const auditEventSchema = {
+  type: "object",
+  properties: {
+    eventId: { type: "string" },
+    type: { type: "string" },
+    occurredAt: { type: "string", format: "date-time" },
+    userId: { type: "string" },
+    email: { type: "string" },
+    ip: { type: "string" },
+    userAgent: { type: "string" },
+    requestId: { type: "string" },
+    outcome: { type: "string", enum: ["success", "failure"] },
+    statusCode: { type: "integer" },
+    errorCode: { type: "string" },
+  },
+  required: ["eventId", "type", "occurredAt", "outcome", "statusCode"],
+};
+
+const errorSchema = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    errorCode: { type: "string" },
+  },
+  required: ["error"],
+};
+
+export const adminAuditEventListRequestSchema: FastifySchema = {
+  querystring: {
+    type: "object",
+    properties: {
+      email: { type: "string", format: "email" },
+      userId: { type: "string", minLength: 1 }, // Cognito sub, for events recorded without an email
+      from: { type: "string", format: "date-time" },
+      to: { type: "string", format: "date-time" },
+      type: { type: "string", enum: AUDIT_EVENT_TYPES },
+      limit: { type: "integer", minimum: 1, maximum: 100, default: 25 },
+      cursor: { type: "string" },
+    },
+    anyOf: [{ required: ["email"] }, { required: ["userId"] }],
+    additionalProperties: false,
+  },
+};
+
+export const adminAuditEventListResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        events: { type: "array", items: auditEventSchema },
+        nextCursor: { type: ["string", "null"] },
+      },
+      required: ["events", "nextCursor"],
+    },
+    400: errorSchema,
+  },
+};
@@ -0,0 +1,129 @@
+import { FastifySchema } from "fastify";
+
+const adminUserSchema = {
+  type: "object",
+  properties: {
+    username: { type: "string" },
+    userId: { type: ["string", "null"] },
+    email: { type: ["string", "null"] },
+    firstName: { type: ["string", "null"] },
+    lastName: { type: ["string", "null"] },
+    status: { type: "string" },
+    enabled: { type: "boolean" },
+    createdAt: { type: ["string", "null"] },
+    lastModifiedAt: { type: ["string", "null"] },
+    attributes: { type: "object", additionalProperties: { type: "string" } },
+  },
+  required: ["username", "status", "enabled"],
+};
+
+const errorSchema = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    errorCode: { type: "string" },
+  },
+  required: ["error"],
+};
+
+const usernameParamsSchema = {
+  type: "object",
+  properties: {
+    username: { type: "string", minLength: 1 },
+  },
+  required: ["username"],
+};
+
+export const adminUserListRequestSchema: FastifySchema = {
+  querystring: {
+    type: "object",
+    properties: {
+      search: { type: "string", minLength: 1 }, // Email prefix
+      status: {
+        type: "string",
+        enum: [
+          "UNCONFIRMED",
+          "CONFIRMED",
+          "ARCHIVED",
+          "COMPROMISED",
+          "UNKNOWN",
+          "RESET_REQUIRED",
+          "FORCE_CHANGE_PASSWORD",
+        ],
+      },
+      limit: { type: "integer", minimum: 1, maximum: 60, default: 25 }, // Cognito's maximum page size is 60
+      paginationToken: { type: "string" },
+    },
+    additionalProperties: false,
+  },
+};
+
+export const adminUserListResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        users: { type: "array", items: adminUserSchema },
+        paginationToken: { type: ["string", "null"] },
+      },
+      required: ["users", "paginationToken"],
+    },
+    400: errorSchema,
+  },
+};
+
+export const adminUserGetRequestSchema: FastifySchema = {
+  params: usernameParamsSchema,
+};
+
+export const adminUserGetResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      ...adminUserSchema,
+      properties: {
+        ...adminUserSchema.properties,
+        mfa: {
+          type: "object",
+          properties: {
+            enabled: { type: "boolean" },
+            preferred: { type: ["string", "null"] },
+            methods: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+    },
+    404: errorSchema,
+  },
+};
+
+// Shared by the action routes (disable, enable, reset-password, ...), which return an empty body
+export const adminUserActionRequestSchema: FastifySchema = {
+  params: usernameParamsSchema,
+};
+
+export const adminUserActionResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {},
+    },
+    400: errorSchema,
+    404: errorSchema,
+  },
+};
+
+export const adminUserLockStatusResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        locked: { type: "boolean" },
+        lockedUntil: { type: ["string", "null"] },
+        recentFailures: { type: "integer" }, // Failed sign-ins in the current window
+        lockouts: { type: "integer" }, // Lockouts since the last successful sign-in, each longer than the last
+      },
+      required: ["locked", "lockedUntil", "recentFailures", "lockouts"],
+    },
+    404: errorSchema,
+  },
+};
@@ -0,0 +1,94 @@
+import { FastifySchema } from "fastify";
+import { TEMPLATE_NAMES } from "../../services/email/templates";
+
+const outboxMessageSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    date: { type: "string", format: "date-time" },
+    from: { type: "string" },
+    to: { type: "array", items: { type: "string" } },
+    replyTo: { type: "array", items: { type: "string" } },
+    subject: { type: "string" },
+    text: { type: "string" },
+    html: { type: "string" },
+  },
+  required: ["id", "date", "to", "subject"],
+};
+
+export const devOutboxListResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        messages: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              date: { type: "string", format: "date-time" },
+              to: { type: "array", items: { type: "string" } },
+              subject: { type: "string" },
+            },
+          },
+        },
+      },
+      required: ["messages"],
+    },
+  },
+};
+
+export const devOutboxMessageRequestSchema: FastifySchema = {
+  params: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+    },
+    required: ["id"],
+  },
+};
+
+export const devOutboxMessageResponseSchema: FastifySchema = {
+  response: {
+    200: outboxMessageSchema,
+    404: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
+export const devEmailTemplateListResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        templates: { type: "array", items: { type: "string" } },
+        locales: { type: "array", items: { type: "string" } },
+      },
+      required: ["templates", "locales"],
+    },
+  },
+};
+
+export const devEmailTemplatePreviewRequestSchema: FastifySchema = {
+  params: {
+    type: "object",
+    properties: {
+      name: { type: "string", enum: TEMPLATE_NAMES },
+    },
+    required: ["name"],
+  },
+  querystring: {
+    type: "object",
+    properties: {
+      locale: { type: "string" },
+      format: { type: "string", enum: ["html", "text"], default: "html" },
+    },
+  },
+};
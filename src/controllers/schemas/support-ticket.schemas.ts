@@ -0,0 +1,92 @@
+import { FastifySchema } from "fastify";
+import { TICKET_STATUSES } from "../../services/support-ticket-service";
+
+const ticketSchema = {
+  type: "object",
+  properties: {
+    ticketId: { type: "string" },
+    email: { type: "string" },
+    message: { type: "string" },
+    status: { type: "string", enum: TICKET_STATUSES },
+    note: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+    requestId: { type: "string" },
+  },
+  required: ["ticketId", "message", "status", "createdAt", "updatedAt"],
+};
+
+const errorSchema = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    errorCode: { type: "string" },
+  },
+  required: ["error"],
+};
+
+const ticketParamsSchema = {
+  type: "object",
+  properties: {
+    ticketId: { type: "string", format: "uuid" },
+  },
+  required: ["ticketId"],
+};
+
+export const supportTicketListRequestSchema: FastifySchema = {
+  querystring: {
+    type: "object",
+    properties: {
+      status: { type: "string", enum: TICKET_STATUSES },
+      limit: { type: "integer", minimum: 1, maximum: 100, default: 25 },
+      cursor: { type: "string" },
+    },
+    additionalProperties: false,
+  },
+};
+
+export const supportTicketListResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        tickets: { type: "array", items: ticketSchema },
+        nextCursor: { type: ["string", "null"] },
+      },
+      required: ["tickets", "nextCursor"],
+    },
+    400: errorSchema,
+  },
+};
+
+export const supportTicketGetRequestSchema: FastifySchema = {
+  params: ticketParamsSchema,
+};
+
+export const supportTicketGetResponseSchema: FastifySchema = {
+  response: {
+    200: ticketSchema,
+    404: errorSchema,
+  },
+};
+
+export const supportTicketUpdateRequestSchema: FastifySchema = {
+  params: ticketParamsSchema,
+  body: {
+    type: "object",
+    properties: {
+      status: { type: "string", enum: TICKET_STATUSES },
+      note: { type: "string", maxLength: 2000 },
+    },
+    additionalProperties: false,
+    minProperties: 1,
+  },
+};
+
+export const supportTicketUpdateResponseSchema: FastifySchema = {
+  response: {
+    200: ticketSchema,
+    400: errorSchema,
+    404: errorSchema,
+  },
+};
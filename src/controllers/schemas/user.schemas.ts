@@ -2,6 +2,17 @@ import fastify, { FastifySchema } from "fastify";
 import { NAME_MAX_LENGTH, NAME_MIN_LENGTH, PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from "../../config/constants";
 import { maxLength } from "class-validator";
 
+// MFA status as reported by Cognito, shared by the /me and /mfa responses
+const mfaStatusSchema = {
+  type: "object",
+  properties: {
+    enabled: { type: "boolean" },
+    preferred: { type: "string", nullable: true },
+    methods: { type: "array", items: { type: "string" } },
+  },
+  required: ["enabled"],
+};
+
 export const userGetMeResponseSchema: FastifySchema = {
   response: {
     200: {
@@ -14,6 +25,7 @@ export const userGetMeResponseSchema: FastifySchema = {
             firstName: { type: "string", nullable: true },
             lastName: { type: "string", nullable: true },
             userId: { type: "string", nullable: true },
+            mfa: mfaStatusSchema,
           },
           required: ["userId"], // Ensure at least `userId` is present
         },
@@ -166,7 +178,18 @@ export const userLoginResponseSchema: FastifySchema = {
   response: {
     200: {
       type: "object",
-      properties: {},
+      properties: {
+        // Present instead of session cookies when Cognito requires another step
+        challenge: {
+          type: "object",
+          properties: {
+            challengeName: { type: "string" },
+            session: { type: "string" },
+            parameters: { type: "object", additionalProperties: { type: "string" } },
+          },
+          required: ["challengeName", "session"],
+        },
+      },
     },
     401: {
       type: "object",
@@ -179,7 +202,57 @@ export const userLoginResponseSchema: FastifySchema = {
   },
 };
 
-export const userUpdateRequestSchema: FastifySchema = {
+// Tokens returned in the body by the /token routes
+export const userTokenResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        tokens: {
+          type: "object",
+          properties: {
+            accessToken: { type: "string" },
+            idToken: { type: "string" },
+            refreshToken: { type: "string" },
+            expiresIn: { type: "integer" },
+            tokenType: { type: "string" },
+          },
+          required: ["accessToken", "expiresIn", "tokenType"],
+        },
+        challenge: {
+          type: "object",
+          properties: {
+            challengeName: { type: "string" },
+            session: { type: "string" },
+            parameters: { type: "object", additionalProperties: { type: "string" } },
+          },
+          required: ["challengeName", "session"],
+        },
+      },
+    },
+    401: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
+export const userTokenRefreshRequestSchema: FastifySchema = {
+  body: {
+    type: "object",
+    properties: {
+      refreshToken: { type: "string", minLength: 1 },
+      email: { type: "string", format: "email" },
+    },
+    required: ["refreshToken", "email"],
+  },
+};
+
+export const userAuthChallengeRequestSchema: FastifySchema = {
   body: {
     type: "object",
     properties: {
@@ -187,11 +260,32 @@ export const userUpdateRequestSchema: FastifySchema = {
         type: "object",
         properties: {
           email: { type: "string", format: "email" },
-          password: { type: "string", minLength: PASSWORD_MIN_LENGTH, maxLength: PASSWORD_MAX_LENGTH },
+          challengeName: { type: "string", enum: ["SOFTWARE_TOKEN_MFA", "SMS_MFA", "NEW_PASSWORD_REQUIRED"] },
+          session: { type: "string", minLength: 1 },
+          code: { type: "string", minLength: 6, maxLength: 6 }, // MFA challenges
+          newPassword: { type: "string", minLength: PASSWORD_MIN_LENGTH, maxLength: PASSWORD_MAX_LENGTH }, // NEW_PASSWORD_REQUIRED
           firstName: { type: "string", minLength: NAME_MIN_LENGTH, maxLength: NAME_MAX_LENGTH },
           lastName: { type: "string", minLength: NAME_MIN_LENGTH, maxLength: NAME_MAX_LENGTH },
         },
-        required: [],
+        required: ["email", "challengeName", "session"],
+      },
+    },
+    required: ["user"],
+  },
+};
+
+export const userUpdateRequestSchema: FastifySchema = {
+  body: {
+    type: "object",
+    properties: {
+      user: {
+        type: "object",
+        properties: {
+          firstName: { type: "string", minLength: NAME_MIN_LENGTH, maxLength: NAME_MAX_LENGTH },
+          lastName: { type: "string", minLength: NAME_MIN_LENGTH, maxLength: NAME_MAX_LENGTH },
+        },
+        additionalProperties: false,
+        minProperties: 1, // Reject empty updates
       },
     },
     required: ["user"],
@@ -202,8 +296,101 @@ export const userUpdateResponseSchema: FastifySchema = {
   response: {
     200: {
       type: "object",
-      properties: {},
-      required: [],
+      properties: {
+        user: {
+          type: "object",
+          properties: {
+            email: { type: "string", format: "email", nullable: true },
+            firstName: { type: "string", nullable: true },
+            lastName: { type: "string", nullable: true },
+            userId: { type: "string", nullable: true },
+            mfa: mfaStatusSchema,
+          },
+          required: ["userId"],
+        },
+      },
+      required: ["user"],
+    },
+    400: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+    401: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
+export const userLogoutRequestSchema: FastifySchema = {
+  body: {
+    type: ["object", "null"],
+    properties: {
+      refreshToken: { type: "string", minLength: 1 }, // Token-mode clients; cookie clients send no body
+    },
+  },
+};
+
+export const userLogoutResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        revoked: { type: "boolean" }, // Whether Cognito revoked the session(s)
+        failedStep: { type: "string" }, // Set when revocation failed; cookies are cleared regardless
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["revoked"],
+    },
+  },
+};
+
+export const userMfaSetupResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        secretCode: { type: "string" },
+        otpauthUri: { type: "string" }, // Render as a QR code for authenticator apps
+      },
+      required: ["secretCode", "otpauthUri"],
+    },
+    401: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
+export const userMfaVerifyRequestSchema: FastifySchema = {
+  body: {
+    type: "object",
+    properties: {
+      code: { type: "string", pattern: "^[0-9]{6}$" },
+      friendlyDeviceName: { type: "string", minLength: 1, maxLength: 100 },
+    },
+    required: ["code"],
+  },
+};
+
+export const userMfaVerifyResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {}, // Empty object on success
     },
     400: {
       type: "object",
@@ -216,6 +403,236 @@ export const userUpdateResponseSchema: FastifySchema = {
   },
 };
 
+export const userMfaPreferenceRequestSchema: FastifySchema = {
+  body: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+    },
+    required: ["enabled"],
+  },
+};
+
+export const userMfaPreferenceResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        mfa: mfaStatusSchema,
+      },
+      required: ["mfa"],
+    },
+    400: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
+export const userDeleteRequestSchema: FastifySchema = {
+  body: {
+    type: "object",
+    properties: {
+      password: { type: "string", minLength: 1, maxLength: PASSWORD_MAX_LENGTH }, // Current password, re-entered
+    },
+    required: ["password"],
+  },
+};
+
+export const userDeleteResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        deleteAfter: { type: "string", format: "date-time" }, // When the account will be permanently deleted
+      },
+      required: ["deleteAfter"],
+    },
+    401: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
+const cancelDeletionFieldsSchema = {
+  type: "object",
+  properties: {
+    username: { type: "string", format: "email" },
+    token: { type: "string", pattern: "^[0-9a-f]{64}$" },
+  },
+  required: ["username", "token"],
+};
+
+// GET shows the confirmation page for the emailed link; POST (from that page's form, or JSON) cancels
+export const userCancelDeletionRequestSchema: FastifySchema = {
+  querystring: cancelDeletionFieldsSchema,
+  body: cancelDeletionFieldsSchema,
+};
+
+export const userCancelDeletionResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        cancelled: { type: "boolean" },
+      },
+      required: ["cancelled"],
+    },
+    404: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
+// Personal data archive returned by /me/export and the emailed download link
+const dataExportSchema = {
+  type: "object",
+  properties: {
+    exportedAt: { type: "string", format: "date-time" },
+    account: {
+      type: "object",
+      properties: {
+        username: { type: "string" },
+        status: { type: "string" },
+        enabled: { type: "boolean" },
+        createdAt: { type: "string", nullable: true },
+        lastModifiedAt: { type: "string", nullable: true },
+      },
+    },
+    attributes: { type: "object", additionalProperties: { type: "string" } },
+    mfa: mfaStatusSchema,
+    supportRequests: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          ticketId: { type: "string" },
+          email: { type: "string" },
+          message: { type: "string" },
+          status: { type: "string" },
+          createdAt: { type: "string" },
+          updatedAt: { type: "string" },
+        },
+      },
+    },
+  },
+  required: ["exportedAt", "account", "attributes", "mfa", "supportRequests"],
+};
+
+export const userExportRequestSchema: FastifySchema = {
+  body: {
+    type: "object",
+    properties: {
+      delivery: { type: "string", enum: ["download", "email"], default: "download" },
+    },
+  },
+};
+
+export const userExportResponseSchema: FastifySchema = {
+  response: {
+    200: dataExportSchema,
+    202: {
+      type: "object",
+      properties: {
+        delivery: { type: "string" }, // "email": a download link was sent to the account's address
+      },
+      required: ["delivery"],
+    },
+    401: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
+export const userExportDownloadRequestSchema: FastifySchema = {
+  querystring: {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid" },
+      token: { type: "string", pattern: "^[0-9a-f]{64}$" },
+    },
+    required: ["id", "token"],
+  },
+};
+
+export const userExportDownloadResponseSchema: FastifySchema = {
+  response: {
+    200: dataExportSchema,
+    404: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
+export const userActivityRequestSchema: FastifySchema = {
+  querystring: {
+    type: "object",
+    properties: {
+      limit: { type: "integer", minimum: 1, maximum: 50, default: 20 },
+    },
+    additionalProperties: false,
+  },
+};
+
+// Recent security events of the signed-in user, newest first
+export const userActivityResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {
+        events: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              type: { type: "string" },
+              occurredAt: { type: "string", format: "date-time" },
+              outcome: { type: "string", enum: ["success", "failure"] },
+              errorCode: { type: "string" },
+              ip: { type: "string" },
+              userAgent: { type: "string" },
+            },
+            required: ["type", "occurredAt", "outcome"],
+          },
+        },
+      },
+      required: ["events"],
+    },
+    401: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
 export const userForgotPasswordRequestSchema = {
   body: {
     type: "object",
@@ -314,6 +731,49 @@ export const userResendConfirmationCodeResponseSchema = {
   },
 };
 
+export const userChangePasswordRequestSchema: FastifySchema = {
+  body: {
+    type: "object",
+    properties: {
+      user: {
+        type: "object",
+        properties: {
+          currentPassword: { type: "string", minLength: 1, maxLength: PASSWORD_MAX_LENGTH },
+          newPassword: { type: "string", minLength: PASSWORD_MIN_LENGTH, maxLength: PASSWORD_MAX_LENGTH },
+          signOutOtherSessions: { type: "boolean", default: false }, // Revoke every other session after the change
+        },
+        required: ["currentPassword", "newPassword"],
+      },
+    },
+    required: ["user"],
+  },
+};
+
+export const userChangePasswordResponseSchema: FastifySchema = {
+  response: {
+    200: {
+      type: "object",
+      properties: {}, // Empty object on success
+    },
+    400: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+    401: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errorCode: { type: "string" },
+      },
+      required: ["error"],
+    },
+  },
+};
+
 export const userSupportRequestSchema: FastifySchema = {
   body: {
     type: "object",
@@ -329,7 +789,10 @@ export const userSupportResponseSchema: FastifySchema = {
   response: {
     200: {
       type: "object",
-      properties: {},
+      properties: {
+        ticketId: { type: "string" },
+      },
+      required: ["ticketId"],
     },
     400: {
       type: "object",
@@ -340,4 +803,4 @@ export const userSupportResponseSchema: FastifySchema = {
       required: ["error"],
     },
   },
-};
\ No newline at end of file
+};
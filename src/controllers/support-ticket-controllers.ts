@@ -0,0 +1,92 @@
+import { FastifyPluginCallback } from "fastify";
+import {
+  ISupportTicketListQuery,
+  ISupportTicketParams,
+  ISupportTicketUpdate,
+} from "./interface/support-ticket.interface";
+import {
+  supportTicketGetRequestSchema,
+  supportTicketGetResponseSchema,
+  supportTicketListRequestSchema,
+  supportTicketListResponseSchema,
+  supportTicketUpdateRequestSchema,
+  supportTicketUpdateResponseSchema,
+} from "./schemas/support-ticket.schemas";
+
+import config from "../config/config";
+import { requireRole } from "../plugins/authorization";
+import { supportTicketService } from "../services/support-ticket-service";
+import { sendErrorResponse } from "../utils/error-handler";
+import { logAudit } from "../utils/logger";
+
+// Support ticket administration; every route requires a signed-in member of the admin group
+export const supportTicketController: FastifyPluginCallback = (server, options, done) => {
+  server.addHook("preHandler", server.authentication);
+  server.addHook("preHandler", requireRole(config.adminGroup));
+
+  // **List tickets, optionally filtered by status**
+  server.get<{ Querystring: ISupportTicketListQuery }>(
+    "/",
+    {
+      schema: {
+        querystring: supportTicketListRequestSchema.querystring,
+        response: supportTicketListResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await supportTicketService.listTickets(request.query);
+        return reply.send(result);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **View a single ticket**
+  server.get<{ Params: ISupportTicketParams }>(
+    "/:ticketId",
+    {
+      schema: {
+        params: supportTicketGetRequestSchema.params,
+        response: supportTicketGetResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const ticket = await supportTicketService.getTicket(request.params.ticketId);
+        return reply.send(ticket);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Update a ticket's status or internal note**
+  server.patch<{ Params: ISupportTicketParams; Body: ISupportTicketUpdate }>(
+    "/:ticketId",
+    {
+      schema: {
+        params: supportTicketUpdateRequestSchema.params,
+        body: supportTicketUpdateRequestSchema.body,
+        response: supportTicketUpdateResponseSchema.response,
+      },
+    },
+    async (request, reply) => {
+      try {
+        const ticket = await supportTicketService.updateTicket(request.params.ticketId, request.body);
+        logAudit("support_ticket_update", {
+          requestId: request.id,
+          ticketId: ticket.ticketId,
+          adminId: request.user.userId,
+          status: ticket.status,
+        });
+        return reply.send(ticket);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  done();
+};
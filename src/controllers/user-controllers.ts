@@ -1,14 +1,29 @@
-import { FastifyPluginCallback, FastifyReply } from "fastify";
+import { FastifyPluginCallback, FastifyReply, FastifyRequest } from "fastify";
+import { AuthenticationResultType } from "@aws-sdk/client-cognito-identity-provider";
 import {
+  IUserActivityQuery,
+  IUserAuthChallenge,
   IUserBody,
+  IUserCancelDeletion,
+  IUserChangePassword,
   IUserConfirmForgotPassword,
+  IUserDelete,
   IUserEmail,
+  IUserExport,
+  IUserExportDownload,
   IUserForgotPassword,
+  IUserLogout,
+  IUserMfaPreference,
+  IUserMfaVerify,
   IUserResendConfirmationCode,
   IUserSupportRequest,
+  IUserTokenRefresh,
+  IUserUpdate,
   IUserVerify,
 } from "./interface/user.interface";
 import {
+  userActivityRequestSchema,
+  userActivityResponseSchema,
   userGetMeResponseSchema,
   userSignUpRequestSchema,
   userSignUpResponseBodySchema,
@@ -16,6 +31,7 @@ import {
   userVerifyResponseSchema,
   userLoginRequestSchema,
   userLoginResponseSchema,
+  userAuthChallengeRequestSchema,
   userForgotPasswordRequestSchema,
   userForgotPasswordResponseSchema,
   userConfirmForgotPasswordRequestSchema,
@@ -25,29 +41,381 @@ import {
   userGetAuth,
   userSupportRequestSchema,
   userSupportResponseSchema,
+  userUpdateRequestSchema,
+  userUpdateResponseSchema,
+  userChangePasswordRequestSchema,
+  userChangePasswordResponseSchema,
+  userLogoutRequestSchema,
+  userLogoutResponseSchema,
+  userTokenResponseSchema,
+  userTokenRefreshRequestSchema,
+  userMfaSetupResponseSchema,
+  userMfaVerifyRequestSchema,
+  userMfaVerifyResponseSchema,
+  userMfaPreferenceRequestSchema,
+  userMfaPreferenceResponseSchema,
+  userDeleteRequestSchema,
+  userDeleteResponseSchema,
+  userCancelDeletionRequestSchema,
+  userCancelDeletionResponseSchema,
+  userExportRequestSchema,
+  userExportResponseSchema,
+  userExportDownloadRequestSchema,
+  userExportDownloadResponseSchema,
 } from "./schemas/user.schemas";
 
 import { userService } from "../services/user-service";
-import { sendErrorResponse } from "../utils/error-handler";
-import { AUTH_TOKEN, REFRESH_TOKEN } from "../config/constants";
+import { auditService } from "../services/audit-service";
+import { LoginAttempt } from "../services/login-guard-service";
+import { accountDeletionService } from "../services/account-deletion-service";
+import { dataExportService } from "../services/data-export-service";
+import {
+  AppError,
+  AuthError,
+  ErrorOverride,
+  errorMessage,
+  handleCognitoError,
+  sendErrorResponse,
+} from "../utils/error-handler";
+import { DATA_EXPORT_FILENAME } from "../config/constants";
+import { authenticateRequest, getAccessToken } from "../plugins/auth";
+import { rateLimit } from "../plugins/rate-limit";
+import { escapeHtml } from "../utils/html-utils";
+import { sessionCookies } from "../utils/session-cookies";
+
+// Token-mode sign-in (/token routes): hand the tokens to the client in the body instead of cookies
+const toTokenResponse = (tokens: AuthenticationResultType) => ({
+  accessToken: tokens.AccessToken,
+  idToken: tokens.IdToken,
+  refreshToken: tokens.RefreshToken, // Absent after a refresh unless Cognito rotated it
+  expiresIn: tokens.ExpiresIn,
+  tokenType: tokens.TokenType,
+});
+
+// Where a sign-in attempt came from, for the login guard's per-address counts and lockout emails
+const loginAttempt = (request: FastifyRequest): LoginAttempt => ({
+  ip: request.ip,
+  acceptLanguage: request.headers["accept-language"],
+});
+
+// Minimal page for the deletion cancel link, which is opened in a browser
+const cancelDeletionPage = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${title}</title></head>
+<body>
+<h1>${title}</h1>
+${body}
+</body>
+</html>`;
+
+// Routes taking an email answer unknown accounts like known ones, so they cannot be used to find registered emails
+const HIDE_UNKNOWN_USER: Record<string, Record<string, ErrorOverride>> = {
+  signIn: { UserNotFoundException: { statusCode: 401, errorCode: "NotAuthorizedException" } },
+  resetCode: { UserNotFoundException: { statusCode: 400, errorCode: "CodeMismatchException" } },
+  codeRequest: { UserNotFoundException: { respondAsSuccess: true } },
+};
+
+// Logout clears the cookies before calling Cognito, so the browser is logged out even when revocation fails.
+// Report which step failed instead of failing the request.
+const sendPartialLogout = (reply: FastifyReply, failedStep: string, error: any) => {
+  const appError = error instanceof AppError ? error : handleCognitoError(error);
+  reply.log.warn({ event: "logout_revocation_failed", failedStep, errorCode: appError.errorCode });
+  return reply.code(200).send({
+    revoked: false,
+    failedStep,
+    error: errorMessage(appError, reply.request.headers["accept-language"]),
+    errorCode: appError.errorCode,
+  });
+};
 
 export const userController: FastifyPluginCallback = (server, options, done) => {
   // **Get authenticated user**
+  // The token is verified locally; the profile comes from a short-lived cache before falling back to Cognito
   server.get(
     "/me",
     {
       schema: {
         response: userGetMeResponseSchema.response,
       },
+      config: { auditEvent: "profile_view" },
     },
     async (request, reply) => {
       try {
-        const user = await userService.verifyUser(request.cookies.authToken);
+        const { userId } = await authenticateRequest(request);
+        const user = await userService.getProfile(userId, getAccessToken(request));
+
+        // Cookie sessions get their CSRF token here, e.g. after a page reload
+        if (request.headers.authorization === undefined) {
+          sessionCookies.issueCsrfToken(request, reply);
+        }
         return reply.send({ user });
       } catch (error) {
-        reply.clearCookie("authToken");
-        reply.clearCookie("refreshToken");
-        reply.clearCookie("email");
+        sessionCookies.clear(request, reply);
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Recent security activity of the authenticated user** (sign-ins, password and MFA changes, ...)
+  server.get<{ Querystring: IUserActivityQuery }>(
+    "/me/activity",
+    {
+      schema: {
+        querystring: userActivityRequestSchema.querystring,
+        response: userActivityResponseSchema.response,
+      },
+      config: { auditEvent: "activity_view" },
+    },
+    async (request, reply) => {
+      try {
+        const user = await authenticateRequest(request);
+        // Events are recorded by email; access tokens only carry it when it is the username
+        const email = user.email || (await userService.getProfile(user.userId, getAccessToken(request))).email;
+        const events = await auditService.recentSecurityEvents({ email, userId: user.userId }, request.query.limit);
+        return reply.send({ events });
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Update authenticated user's profile**
+  server.patch<{ Body: IUserUpdate }>(
+    "/me",
+    {
+      schema: {
+        body: userUpdateRequestSchema.body,
+        response: userUpdateResponseSchema.response,
+      },
+      config: { auditEvent: "profile_update" },
+    },
+    async (request, reply) => {
+      try {
+        const user = await userService.updateUserAttributes(getAccessToken(request), request.body.user);
+        return reply.code(200).send({ user });
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Schedule deletion of the authenticated user's account**
+  server.delete<{ Body: IUserDelete }>(
+    "/me",
+    {
+      schema: {
+        body: userDeleteRequestSchema.body,
+        response: userDeleteResponseSchema.response,
+      },
+      config: { auditEvent: "account_deletion_request" },
+    },
+    async (request, reply) => {
+      try {
+        const { deleteAfter } = await accountDeletionService.requestDeletion(
+          getAccessToken(request),
+          request.body.password,
+          loginAttempt(request)
+        );
+
+        // The account is disabled from now on
+        sessionCookies.clear(request, reply);
+
+        return reply.code(200).send({ deleteAfter });
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Cancel a scheduled deletion (link from the confirmation email)**
+  // The link only opens a confirmation page; its form POSTs the cancellation. Mail scanners and link prefetchers
+  // follow links with GET, so they must not be able to cancel a deletion.
+  server.register((scope, opts, registered) => {
+    // The confirmation page submits a plain HTML form
+    scope.addContentTypeParser("application/x-www-form-urlencoded", { parseAs: "string" }, (request, body, parsed) => {
+      const fields: Record<string, string> = {};
+      new URLSearchParams(body as string).forEach((value, key) => (fields[key] = value));
+      parsed(null, fields);
+    });
+
+    scope.get<{ Querystring: IUserCancelDeletion }>(
+      "/deletion/cancel",
+      { schema: { querystring: userCancelDeletionRequestSchema.querystring } },
+      async (request, reply) => {
+        const { username, token } = request.query;
+        return reply.type("text/html; charset=utf-8").send(
+          cancelDeletionPage(
+            "Cancel account deletion",
+            `<p>Your account <strong>${escapeHtml(username)}</strong> is scheduled for deletion.</p>
+<form method="post">
+<input type="hidden" name="username" value="${escapeHtml(username)}">
+<input type="hidden" name="token" value="${escapeHtml(token)}">
+<button type="submit">Keep my account</button>
+</form>`
+          )
+        );
+      }
+    );
+
+    scope.post<{ Body: IUserCancelDeletion }>(
+      "/deletion/cancel",
+      {
+        schema: {
+          body: userCancelDeletionRequestSchema.body,
+          response: userCancelDeletionResponseSchema.response,
+        },
+        config: { auditEvent: "account_deletion_cancel" },
+      },
+      async (request, reply) => {
+        // Answer the confirmation page's form with a page, API clients with JSON
+        const fromForm = request.headers["content-type"]?.indexOf("application/x-www-form-urlencoded") === 0;
+        try {
+          await accountDeletionService.cancelDeletion(request.body.username, request.body.token);
+          if (fromForm) {
+            return reply
+              .type("text/html; charset=utf-8")
+              .send(
+                cancelDeletionPage(
+                  "Deletion cancelled",
+                  "<p>Your account has been re-enabled. You can sign in again.</p>"
+                )
+              );
+          }
+          return reply.code(200).send({ cancelled: true });
+        } catch (error) {
+          if (fromForm && error instanceof AppError) {
+            return reply
+              .code(error.statusCode)
+              .type("text/html; charset=utf-8")
+              .send(cancelDeletionPage("Deletion not cancelled", `<p>${escapeHtml(error.message)}</p>`));
+          }
+          return sendErrorResponse(reply, error);
+        }
+      }
+    );
+
+    registered();
+  });
+
+  // **Export everything we hold about the authenticated user**
+  server.post<{ Body: IUserExport }>(
+    "/me/export",
+    {
+      schema: {
+        body: userExportRequestSchema.body,
+        response: userExportResponseSchema.response,
+      },
+      // Building an export hits several Cognito APIs; keep it well below the global limit.
+      // Authenticated first, so the limit also applies per user and not only per address
+      preHandler: [server.authentication, rateLimit("dataExport")],
+      config: { auditEvent: "data_export" },
+    },
+    async (request, reply) => {
+      const delivery = request.body?.delivery || "download";
+      try {
+        const archive = await dataExportService.buildExport(getAccessToken(request));
+
+        if (delivery === "email") {
+          await dataExportService.emailDownloadLink(
+            archive.attributes.email,
+            archive,
+            request.headers["accept-language"]
+          );
+          return reply.code(202).send({ delivery });
+        }
+
+        reply.header("Content-Disposition", `attachment; filename="${DATA_EXPORT_FILENAME}"`);
+        return reply.code(200).send(archive);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Download an export from an emailed link**
+  server.get<{ Querystring: IUserExportDownload }>(
+    "/export/download",
+    {
+      schema: {
+        querystring: userExportDownloadRequestSchema.querystring,
+        response: userExportDownloadResponseSchema.response,
+      },
+      config: { auditEvent: "data_export_download" },
+    },
+    async (request, reply) => {
+      try {
+        const archive = await dataExportService.getDownload(request.query.id, request.query.token);
+
+        reply.header("Content-Disposition", `attachment; filename="${DATA_EXPORT_FILENAME}"`);
+        return reply.code(200).send(JSON.parse(archive));
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Start TOTP MFA enrollment**
+  server.post(
+    "/mfa/totp/setup",
+    {
+      schema: {
+        response: userMfaSetupResponseSchema.response,
+      },
+      config: { auditEvent: "mfa_setup" },
+    },
+    async (request, reply) => {
+      try {
+        const setup = await userService.associateSoftwareToken(getAccessToken(request));
+        return reply.code(200).send(setup);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Verify the first TOTP code to complete enrollment**
+  server.post<{ Body: IUserMfaVerify }>(
+    "/mfa/totp/verify",
+    {
+      schema: {
+        body: userMfaVerifyRequestSchema.body,
+        response: userMfaVerifyResponseSchema.response,
+      },
+      config: { auditEvent: "mfa_verify" },
+    },
+    async (request, reply) => {
+      try {
+        await userService.verifySoftwareToken(
+          getAccessToken(request),
+          request.body.code,
+          request.body.friendlyDeviceName
+        );
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Enable or disable TOTP MFA**
+  server.put<{ Body: IUserMfaPreference }>(
+    "/mfa",
+    {
+      schema: {
+        body: userMfaPreferenceRequestSchema.body,
+        response: userMfaPreferenceResponseSchema.response,
+      },
+      config: { auditEvent: "mfa_preference" },
+    },
+    async (request, reply) => {
+      try {
+        const mfa = await userService.setMfaPreference(
+          getAccessToken(request),
+          request.body.enabled,
+          request.headers["accept-language"]
+        );
+        return reply.code(200).send({ mfa });
+      } catch (error) {
         return sendErrorResponse(reply, error);
       }
     }
@@ -61,6 +429,8 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
         body: userSignUpRequestSchema.body,
         response: userSignUpResponseBodySchema.response,
       },
+      preHandler: rateLimit("signup"),
+      config: { auditEvent: "sign_up" },
     },
     async (request, reply) => {
       try {
@@ -80,13 +450,18 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
         body: userVerifyRequestSchema.body,
         response: userVerifyResponseSchema.response,
       },
+      preHandler: rateLimit("confirmationCode"),
+      config: { auditEvent: "sign_up_confirm" },
     },
     async (request, reply) => {
       try {
-        await userService.confirmUser({
-          email: request.body.user.email,
-          confirmationCode: request.body.user.confirmationCode,
-        });
+        await userService.confirmUser(
+          {
+            email: request.body.user.email,
+            confirmationCode: request.body.user.confirmationCode,
+          },
+          request.headers["accept-language"]
+        );
         return reply.code(200).send({});
       } catch (error) {
         return sendErrorResponse(reply, error);
@@ -95,51 +470,29 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
   );
 
   // **Add a refresh token endpoint**
-  server.post("/refresh-token", async (request, reply) => {
-    try {
-      const refreshToken = request.cookies.refreshToken;
-      const email = request.cookies["email"];
-
-      if (!refreshToken || !email) {
-        return reply.code(401).send({
-          error: "Missing refresh token or email",
-          errorCode: "INVALID_REFRESH_REQUEST",
-        });
-      }
+  server.post(
+    "/refresh-token",
+    { preHandler: rateLimit("tokenRefresh"), config: { auditEvent: "token_refresh" } },
+    async (request, reply) => {
+      try {
+        const { refreshToken, email } = sessionCookies.read(request);
 
-      const { AccessToken, RefreshToken } = await userService.refreshToken(refreshToken, email);
-
-      // Set cookie configuration - extract to a helper for consistency
-      const cookieConfig = {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "strict" as "strict" | "lax" | "none",
-        path: "/",
-        domain: process.env.NODE_ENV === "production" ? ".jonathanmau.com" : "localhost",
-      };
-
-      reply.setCookie(AUTH_TOKEN, AccessToken, {
-        ...cookieConfig,
-        maxAge: 12 * 60 * 60, // 12 hours in seconds
-      });
-
-      if (RefreshToken) {
-        reply.setCookie(REFRESH_TOKEN, RefreshToken, {
-          ...cookieConfig,
-          maxAge: 7 * 24 * 60 * 60, // 7 days
-        });
-      }
+        if (!refreshToken || !email) {
+          throw new AuthError("Missing refresh token or email", "INVALID_REFRESH_REQUEST");
+        }
 
-      return reply.code(200).send({});
-    } catch (error) {
-      // Clear all auth cookies on failure
-      reply.clearCookie(AUTH_TOKEN);
-      reply.clearCookie(REFRESH_TOKEN);
-      reply.clearCookie("email");
+        const tokens = await userService.refreshToken(refreshToken, email);
+        sessionCookies.set(request, reply, tokens);
 
-      return sendErrorResponse(reply, error);
+        return reply.code(200).send({});
+      } catch (error) {
+        // Clear all auth cookies on failure
+        sessionCookies.clear(request, reply);
+
+        return sendErrorResponse(reply, error);
+      }
     }
-  });
+  );
 
   // Remaining controller methods with updated error handling
   server.post<{ Body: IUserEmail }>(
@@ -149,25 +502,19 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
         body: userLoginRequestSchema.body,
         response: userLoginResponseSchema.response,
       },
+      preHandler: rateLimit("login"),
+      config: { auditEvent: "login", errorOverrides: HIDE_UNKNOWN_USER.signIn },
     },
     async (request, reply) => {
       try {
-        const { AccessToken, RefreshToken } = await userService.login(request.body.user);
-        const email = request.body.user.email;
-
-        // Cookie configuration
-        const cookieConfig = {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === "production",
-          sameSite: "strict" as "strict" | "lax" | "none",
-          path: "/",
-          domain: process.env.NODE_ENV === "production" ? ".jonathanmau.com" : "localhost",
-        };
-
-        reply.setCookie(AUTH_TOKEN, AccessToken, cookieConfig);
-        reply.setCookie(REFRESH_TOKEN, RefreshToken, cookieConfig);
-        reply.setCookie("email", email, cookieConfig);
+        const { tokens, challenge } = await userService.login(request.body.user, loginAttempt(request));
+
+        // MFA or a forced password change: the client answers it via /login/challenge
+        if (challenge) {
+          return reply.code(200).send({ challenge });
+        }
 
+        sessionCookies.set(request, reply, tokens, request.body.user.email);
         return reply.code(200).send({});
       } catch (error) {
         return sendErrorResponse(reply, error);
@@ -175,13 +522,198 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
     }
   );
 
-  // User logout
-  server.post("/logout", async (request, reply) => {
-    reply.clearCookie(AUTH_TOKEN);
-    reply.clearCookie(REFRESH_TOKEN);
-    reply.clearCookie("email");
-    return reply.code(200).send({});
-  });
+  // Answer a login challenge (MFA code or new password)
+  server.post<{ Body: IUserAuthChallenge }>(
+    "/login/challenge",
+    {
+      schema: {
+        body: userAuthChallengeRequestSchema.body,
+        response: userLoginResponseSchema.response,
+      },
+      preHandler: rateLimit("login"),
+      config: { auditEvent: "login_challenge" },
+    },
+    async (request, reply) => {
+      try {
+        const { tokens, challenge } = await userService.respondToAuthChallenge(
+          request.body.user,
+          loginAttempt(request)
+        );
+
+        // Cognito can chain challenges, e.g. a new password followed by MFA
+        if (challenge) {
+          return reply.code(200).send({ challenge });
+        }
+
+        sessionCookies.set(request, reply, tokens, request.body.user.email);
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Token-mode login** for clients that cannot use cookies (CLI, mobile): tokens are returned in the body
+  server.post<{ Body: IUserEmail }>(
+    "/token",
+    {
+      schema: {
+        body: userLoginRequestSchema.body,
+        response: userTokenResponseSchema.response,
+      },
+      preHandler: rateLimit("login"),
+      config: { auditEvent: "login", errorOverrides: HIDE_UNKNOWN_USER.signIn },
+    },
+    async (request, reply) => {
+      try {
+        const { tokens, challenge } = await userService.login(request.body.user, loginAttempt(request));
+        if (challenge) {
+          return reply.code(200).send({ challenge });
+        }
+        return reply.code(200).send({ tokens: toTokenResponse(tokens) });
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Token-mode challenge answer**, the counterpart of /login/challenge
+  server.post<{ Body: IUserAuthChallenge }>(
+    "/token/challenge",
+    {
+      schema: {
+        body: userAuthChallengeRequestSchema.body,
+        response: userTokenResponseSchema.response,
+      },
+      preHandler: rateLimit("login"),
+      config: { auditEvent: "login_challenge" },
+    },
+    async (request, reply) => {
+      try {
+        const { tokens, challenge } = await userService.respondToAuthChallenge(
+          request.body.user,
+          loginAttempt(request)
+        );
+        if (challenge) {
+          return reply.code(200).send({ challenge });
+        }
+        return reply.code(200).send({ tokens: toTokenResponse(tokens) });
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // **Token-mode refresh**: exchange a refresh token from the body for new tokens
+  server.post<{ Body: IUserTokenRefresh }>(
+    "/token/refresh",
+    {
+      schema: {
+        body: userTokenRefreshRequestSchema.body,
+        response: userTokenResponseSchema.response,
+      },
+      preHandler: rateLimit("tokenRefresh"),
+      config: { auditEvent: "token_refresh" },
+    },
+    async (request, reply) => {
+      try {
+        const tokens = await userService.refreshToken(request.body.refreshToken, request.body.email);
+        return reply.code(200).send({ tokens: toTokenResponse(tokens) });
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
+
+  // User logout: clear the auth cookies and revoke this session's refresh token
+  // (taken from the body for token-mode clients, otherwise from the cookie)
+  server.post<{ Body: IUserLogout }>(
+    "/logout",
+    {
+      schema: {
+        body: userLogoutRequestSchema.body,
+        response: userLogoutResponseSchema.response,
+      },
+      config: { auditEvent: "logout" },
+    },
+    async (request, reply) => {
+      let authToken: string | undefined;
+      try {
+        authToken = getAccessToken(request);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+      const refreshToken = request.body?.refreshToken || sessionCookies.read(request).refreshToken;
+      sessionCookies.clear(request, reply);
+
+      try {
+        await userService.logout(authToken, refreshToken);
+        return reply.code(200).send({ revoked: true });
+      } catch (error) {
+        return sendPartialLogout(reply, "REVOKE_TOKEN", error);
+      }
+    }
+  );
+
+  // Sign out everywhere: clear the auth cookies and revoke every session of the user
+  server.post(
+    "/logout-all",
+    {
+      schema: {
+        response: userLogoutResponseSchema.response,
+      },
+      config: { auditEvent: "logout_all" },
+    },
+    async (request, reply) => {
+      let authToken: string | undefined;
+      try {
+        authToken = getAccessToken(request);
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+      sessionCookies.clear(request, reply);
+
+      try {
+        await userService.logoutEverywhere(authToken, request.headers["accept-language"]);
+        return reply.code(200).send({ revoked: true });
+      } catch (error) {
+        return sendPartialLogout(reply, "GLOBAL_SIGN_OUT", error);
+      }
+    }
+  );
+
+  // Change password for a logged-in user
+  server.post<{ Body: IUserChangePassword }>(
+    "/change-password",
+    {
+      schema: {
+        body: userChangePasswordRequestSchema.body,
+        response: userChangePasswordResponseSchema.response,
+      },
+      config: { auditEvent: "password_change" },
+    },
+    async (request, reply) => {
+      try {
+        const { sessionRevoked, tokens } = await userService.changePassword(
+          getAccessToken(request),
+          request.body.user,
+          request.headers["accept-language"]
+        );
+
+        // Signing out other sessions also revoked ours: replace the cookies with the re-issued tokens,
+        // or clear them if the account needs a challenge to sign in again
+        if (tokens) {
+          sessionCookies.set(request, reply, tokens);
+        } else if (sessionRevoked) {
+          sessionCookies.clear(request, reply);
+        }
+
+        return reply.code(200).send({});
+      } catch (error) {
+        return sendErrorResponse(reply, error);
+      }
+    }
+  );
 
   // Forgot password flow
   server.post<{ Body: IUserForgotPassword }>(
@@ -191,6 +723,8 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
         body: userForgotPasswordRequestSchema.body,
         response: userForgotPasswordResponseSchema.response,
       },
+      preHandler: rateLimit("passwordReset"),
+      config: { auditEvent: "password_reset_request", errorOverrides: HIDE_UNKNOWN_USER.codeRequest },
     },
     async (request, reply) => {
       try {
@@ -209,6 +743,8 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
         body: userConfirmForgotPasswordRequestSchema.body,
         response: userConfirmForgotPasswordResponseSchema.response,
       },
+      preHandler: rateLimit("passwordReset"),
+      config: { auditEvent: "password_reset", errorOverrides: HIDE_UNKNOWN_USER.resetCode },
     },
     async (request, reply) => {
       try {
@@ -228,6 +764,8 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
         body: userResendConfirmationCodeRequestSchema.body,
         response: userResendConfirmationCodeResponseSchema.response,
       },
+      preHandler: rateLimit("confirmationCode"),
+      config: { auditEvent: "confirmation_code_resend", errorOverrides: HIDE_UNKNOWN_USER.codeRequest },
     },
     async (request, reply) => {
       try {
@@ -248,14 +786,23 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
         body: userSupportRequestSchema.body,
         response: userSupportResponseSchema.response,
       },
+      preHandler: rateLimit("support"),
+      config: { auditEvent: "support_request" },
     },
     async (request, reply) => {
       try {
-        await userService.submitSupportRequest({
-          email: request.body.email,
-          message: request.body.message,
-        });
-        return reply.code(200).send({});
+        // Tickets from a signed-in user are linked to the account; without a valid session they stay anonymous
+        const requester = await authenticateRequest(request).catch((): null => null);
+        const { ticketId } = await userService.submitSupportRequest(
+          {
+            email: request.body.email,
+            userId: requester?.userId,
+            message: request.body.message,
+            requestId: request.id,
+          },
+          request.headers["accept-language"]
+        );
+        return reply.code(200).send({ ticketId });
       } catch (error) {
         return sendErrorResponse(reply, error);
       }
@@ -263,4 +810,4 @@ export const userController: FastifyPluginCallback = (server, options, done) =>
   );
 
   done();
-};
\ No newline at end of file
+};
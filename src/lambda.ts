@@ -1,23 +1,31 @@
 import "reflect-metadata";
-import fastify, { FastifyInstance, FastifyRequest } from "fastify";
+import fastify, { FastifyInstance } from "fastify";
 import awsLambdaFastify from "@fastify/aws-lambda";
 import { Context, APIGatewayProxyEvent } from "aws-lambda";
 import cors from "@fastify/cors";
 import fastifyCookie from "@fastify/cookie";
 import fastifyHelmet from "@fastify/helmet";
-import fastifyRateLimit from "@fastify/rate-limit";
 import * as Sentry from "@sentry/node";
 import { v4 as uuidv4 } from "uuid";
 
 // Import your controllers and configurations
 import sentryMonitoring from "./plugins/sentry-monitoring";
 import { userController } from "./controllers/user-controllers";
+import { devController } from "./controllers/dev-controllers";
+import { supportTicketController } from "./controllers/support-ticket-controllers";
+import { adminUserController } from "./controllers/admin-user-controllers";
+import { adminAuditController } from "./controllers/admin-audit-controllers";
 import config from "./config/config";
 import corsConfig from "./config/corsConfig";
+import audit from "./plugins/audit";
 import auth from "./plugins/auth";
+import csrf from "./plugins/csrf";
+import rateLimitPlugin from "./plugins/rate-limit";
 import errorPlugin from "./plugins/error-handler";
 import { sendErrorResponse } from "./utils/error-handler";
 import logger, { loggerOptions } from "./utils/logger";
+import { jwksKeyStore } from "./services/jwks-key-store";
+import { accountDeletionService } from "./services/account-deletion-service";
 
 // Create the Fastify app
 const app: FastifyInstance = fastify({
@@ -27,13 +35,13 @@ const app: FastifyInstance = fastify({
     // Extract request ID from Lambda event headers or generate new one
     return (request.headers["x-request-id"] as string) || uuidv4();
   },
-  trustProxy: process.env.NODE_ENV === "production", // Trust proxy headers in production
+  // The client IP is API Gateway's sourceIp, which @fastify/aws-lambda passes as the remote address.
+  // X-Forwarded-For is not trusted: its leftmost entries are whatever the client sent
+  trustProxy: false,
 });
 
 // Register plugins
 const registerPlugins = () => {
-  const env = (process.env.NODE_ENV as keyof typeof corsConfig) || "development";
-
   // Register Sentry monitoring first
   app.register(sentryMonitoring);
 
@@ -41,31 +49,23 @@ const registerPlugins = () => {
   app.register(fastifyHelmet);
 
   // Register CORS
-  app.register(cors, corsConfig[env]);
-
-  // Register cookie handling
-  app.register(fastifyCookie, {
-    parseOptions: {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      path: "/",
-      maxAge: 60 * 60 * 24 * 7, // 1 week
-      domain: process.env.NODE_ENV === "production" ? ".jonathanmau.com" : "localhost",
-    },
-  });
+  app.register(cors, corsConfig);
 
-  // Rate limiting for security
-  app.register(fastifyRateLimit, {
-    max: 100,
-    timeWindow: "1 minute",
-    // Skip rate limiting for health checks
-    skip: (request: FastifyRequest) => request.url.startsWith("/health"),
-  } as any);
+  // Register cookie handling; session cookie options live in utils/session-cookies
+  app.register(fastifyCookie);
+
+  // Rate limiting for security: a global per-IP limit here, stricter policies on sensitive routes
+  app.register(rateLimitPlugin);
 
   // Register authentication plugin
   app.register(auth);
 
+  // Register CSRF protection for cookie-authenticated requests
+  app.register(csrf);
+
+  // Record authentication audit events for the routes that opt in
+  app.register(audit);
+
   // Register request tracking and error handling
   app.register(errorPlugin);
 };
@@ -74,20 +74,41 @@ const registerPlugins = () => {
 const registerControllers = () => {
   // Health check endpoint for load balancers
   app.get("/health", async (request, reply) => {
-    return { status: "ok", timestamp: new Date().toISOString() };
+    return { status: "ok", timestamp: new Date().toISOString(), jwks: jwksKeyStore.stats() };
   });
 
   // Register user routes
   app.register(userController, {
     prefix: `${config.apiPrefix}/users`,
   });
+
+  // Register admin routes
+  app.register(supportTicketController, {
+    prefix: `${config.apiPrefix}/admin/support-tickets`,
+  });
+  app.register(adminUserController, {
+    prefix: `${config.apiPrefix}/admin/users`,
+  });
+  app.register(adminAuditController, {
+    prefix: `${config.apiPrefix}/admin/audit-events`,
+  });
+
+  // Register development helpers (email template previews, outbox viewer) outside production
+  if (config.env !== "production") {
+    app.register(devController, {
+      prefix: `${config.apiPrefix}/dev`,
+    });
+  }
 };
 
 // Register all plugins and controllers
-app.log.info(`Starting Lambda in ${process.env.NODE_ENV || "development"} mode`);
+app.log.info(`Starting Lambda in ${config.env} mode`);
 registerPlugins();
 registerControllers();
 
+// Start loading the token signing keys during the cold start instead of on the first authenticated request
+jwksKeyStore.warm();
+
 // Create the Lambda handler
 const proxy = awsLambdaFastify(app);
 export const handler = async (event: APIGatewayProxyEvent, context: Context) => {
@@ -100,6 +121,13 @@ export const handler = async (event: APIGatewayProxyEvent, context: Context) =>
   return proxy(event, context);
 };
 
+// Scheduled handler (EventBridge) that permanently deletes accounts whose deletion grace period has ended
+export const processAccountDeletions = async () => {
+  const result = await accountDeletionService.processDueDeletions();
+  app.log.info({ event: "account_deletions_processed", ...result });
+  return result;
+};
+
 // Lambda has its own lifecycle management, but we can define a cleanup function
 // that AWS Lambda may call during function shutdown
 export const cleanup = async () => {
@@ -110,7 +138,7 @@ export const cleanup = async () => {
     await app.close();
 
     // Close Sentry if it's being used
-    if (process.env.SENTRY_DSN) {
+    if (config.sentryDsn) {
       await Sentry.close(2000);
     }
 
@@ -120,16 +148,3 @@ export const cleanup = async () => {
     throw err;
   }
 };
-
-// Extend Fastify request interface
-declare module "fastify" {
-  interface FastifyRequest {
-    startTime?: [number, number];
-    user?: {
-      userId: string;
-      email: string;
-      firstName?: string;
-      lastName?: string;
-    };
-  }
-}
\ No newline at end of file
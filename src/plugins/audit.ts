@@ -0,0 +1,76 @@
+import { fastifyPlugin } from "fastify-plugin";
+import { FastifyPluginCallback, FastifyRequest } from "fastify";
+import { authenticateRequest } from "./auth";
+import { auditService, AuditEventType } from "../services/audit-service";
+import { sessionCookies } from "../utils/session-cookies";
+
+//  **Audited Routes**
+// A route opts in with `config: { auditEvent: "<type>" }`; see AUDIT_EVENT_TYPES for the types.
+declare module "fastify" {
+  interface FastifyContextConfig {
+    auditEvent?: AuditEventType;
+  }
+}
+
+const submittedEmail = (request: FastifyRequest): string | undefined => {
+  const body = request.body as { user?: { email?: unknown }; email?: unknown; username?: unknown } | undefined;
+  const query = request.query as { username?: unknown } | undefined;
+  const email =
+    body?.user?.email ?? body?.email ?? body?.username ?? query?.username ?? sessionCookies.read(request).email;
+  return typeof email === "string" && email ? email : undefined;
+};
+
+// The account a request acted on: the verified token's user, else the email it submitted or its session cookie
+const resolveUser = async (request: FastifyRequest): Promise<{ userId?: string; email?: string }> => {
+  try {
+    // Revoked tokens still identify their user, e.g. right after signing out everywhere
+    const user = request.user || (await authenticateRequest(request, { checkRevocation: false }));
+    return { userId: user.userId, email: user.email || submittedEmail(request) };
+  } catch (error) {
+    return { email: submittedEmail(request) };
+  }
+};
+
+// `errorCode` of a JSON error body
+const errorCodeOf = (payload: unknown): string | undefined => {
+  if (typeof payload !== "string") return undefined;
+  try {
+    return JSON.parse(payload).errorCode;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+//  **Fastify Audit Plugin**
+// - Writes one audit event per request to an audited route. Requests rejected early (rate limits, CSRF,
+//   validation) are recorded as failures too.
+// - Written before the response is sent: a Lambda container may be frozen as soon as it has responded.
+// - A failed write is logged and otherwise ignored.
+const auditPlugin: FastifyPluginCallback = (server, options, done) => {
+  server.addHook("onSend", async (request, reply, payload) => {
+    const type = request.routeOptions.config.auditEvent;
+    if (!type) return;
+
+    const failed = reply.statusCode >= 400;
+    try {
+      const { userId, email } = await resolveUser(request);
+      await auditService.record({
+        type,
+        userId,
+        email,
+        ip: request.ip,
+        userAgent: request.headers["user-agent"],
+        requestId: request.id,
+        outcome: failed ? "failure" : "success",
+        statusCode: reply.statusCode,
+        errorCode: failed ? errorCodeOf(payload) : undefined,
+      });
+    } catch (error) {
+      request.log.error({ event: "audit_write_failed", auditEvent: type, err: error });
+    }
+  });
+
+  done();
+};
+
+export default fastifyPlugin(auditPlugin);
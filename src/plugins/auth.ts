@@ -1,10 +1,27 @@
 import { fastifyPlugin } from "fastify-plugin";
 import { FastifyPluginCallback, FastifyReply, FastifyRequest } from "fastify";
-import axios from "axios";
 import * as jwt from "jsonwebtoken";
-const jwkToPem = require("jwk-to-pem"); // Converts AWS Cognito JWK to PEM format for JWT verification
 
+import { RevocableTokenClaims, tokenRevocationService } from "../services/token-revocation-service";
+import identityProvider from "../services/identity";
+import { jwksKeyStore } from "../services/jwks-key-store";
+import { EMAIL_REGEX } from "../config/constants";
 import config from "../config/config";
+import { AppError, AuthError, sendErrorResponse } from "../utils/error-handler";
+import { sessionCookies } from "../utils/session-cookies";
+
+//  **The Authenticated Caller**
+// Built from the verified access token by `server.authentication`.
+export interface AuthenticatedUser {
+  userId: string; // `sub` claim
+  username: string;
+  email?: string; // Access tokens carry no email claim; set when the username is the email address
+  firstName?: string;
+  lastName?: string;
+  groups: string[]; // `cognito:groups` claim
+  scopes: string[]; // Space-separated `scope` claim
+  claims: jwt.JwtPayload; // Every verified claim, for anything not mapped above
+}
 
 //  **Extending Fastify to Add Custom Authentication**
 // This extends Fastify's instance to include an `authentication` method.
@@ -13,101 +30,192 @@ declare module "fastify" {
   export interface FastifyInstance {
     authentication: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
   }
-}
 
-//  **Environment Variables for AWS Cognito**
-// AWS Cognito provides a JSON Web Key Set (JWKS) for token verification.
-const USER_POOL_ID = process.env.AWS_COGNITO_USER_POOL_ID; // Cognito User Pool ID
-const REGION = process.env.AWS_REGION; // AWS region where the Cognito pool is hosted
-const JWK_URL = `https://cognito-idp.${REGION}.amazonaws.com/${USER_POOL_ID}/.well-known/jwks.json`; // URL to fetch the JWKS
-
-//  **Caching JWKs (JSON Web Key Set)**
-// - AWS Cognito provides public keys (JWKs) to verify JWTs.
-// - To avoid fetching them on every request, we cache them in-memory.
-let jwksCache: any = null; // Stores the JWKs
-let jwksLastFetch = 0; // Timestamp of last fetch
-const CACHE_TTL = 24 * 60 * 60 * 1000; // Set a 24-hour cache lifespan
-
-//  **Function to Fetch and Cache JWKs**
-// This function retrieves the JWKs from AWS Cognito and caches them.
-async function getJwks() {
-  const now = Date.now();
-
-  // Check if cache is still valid
-  if (!jwksCache || now - jwksLastFetch > CACHE_TTL) {
-    try {
-      const response = await axios.get(JWK_URL); // Fetch JWKs from AWS
-      jwksCache = response.data.keys; // Store keys in cache
-      jwksLastFetch = now; // Update last fetch timestamp
-    } catch (error) {
-      console.error("Error fetching JWKs from Cognito:", error);
-      throw new Error("Failed to retrieve JWKs");
-    }
+  interface FastifyRequest {
+    user?: AuthenticatedUser;
   }
+}
 
-  return jwksCache; // Return cached keys
+// Map verified access token claims to the typed request user
+const toAuthenticatedUser = (claims: jwt.JwtPayload): AuthenticatedUser => {
+  const username: string = claims.username || claims["cognito:username"] || claims.sub;
+  const email: string | undefined = claims.email || (EMAIL_REGEX.test(username) ? username : undefined);
+
+  return {
+    userId: claims.sub,
+    username,
+    email,
+    firstName: claims.given_name,
+    lastName: claims.family_name,
+    groups: claims["cognito:groups"] || [],
+    scopes: typeof claims.scope === "string" ? claims.scope.split(" ").filter(Boolean) : [],
+    claims,
+  };
+};
+
+//  **Token Validation Policy**
+// - What a token must satisfy beyond a valid signature. Defaults come from config; routes can tighten them.
+export interface TokenValidationPolicy {
+  allowedTokenUses: string[]; // `token_use` claim: "access" and/or "id"
+  clientIds: string[]; // Accepted app clients (`client_id` of access tokens, `aud` of ID tokens)
+  clockToleranceSeconds: number; // Leeway for exp, nbf and iat
+  requiredScopes: string[]; // All must be in the `scope` claim
+  checkRevocation: boolean; // Reject sessions that were logged out or signed out everywhere
 }
 
+export const defaultTokenPolicy: TokenValidationPolicy = {
+  allowedTokenUses: config.tokenValidation.allowedTokenUses,
+  clientIds: config.tokenValidation.clientIds.length ? config.tokenValidation.clientIds : [identityProvider.clientId],
+  clockToleranceSeconds: config.tokenValidation.clockToleranceSeconds,
+  requiredScopes: [],
+  checkRevocation: config.tokenValidation.checkRevocation,
+};
+
+// Map jsonwebtoken's verification failures to our error codes
+const toVerificationError = (error: any): AuthError => {
+  switch (error.name) {
+    case "TokenExpiredError":
+      return new AuthError("Authentication token has expired", "TOKEN_EXPIRED");
+    case "NotBeforeError":
+      return new AuthError("Authentication token is not yet valid", "TOKEN_NOT_YET_VALID");
+  }
+  if (/issuer/.test(error.message)) {
+    return new AuthError("Authentication token has the wrong issuer", "INVALID_ISSUER");
+  }
+  if (/signature|algorithm/.test(error.message)) {
+    return new AuthError("Authentication token signature is invalid", "INVALID_SIGNATURE");
+  }
+  return new AuthError("Authentication token is malformed", "MALFORMED_TOKEN");
+};
+
 //  **Function to Validate JWT Token**
-// - Decodes and verifies the token using AWS Cognito's public keys (JWKs).
-async function validateToken(token: string) {
+// - Verifies the signature against the identity provider's public keys (JWKs), then applies the policy.
+// - Throws an AuthError whose code says what was wrong (TOKEN_EXPIRED, WRONG_AUDIENCE, WRONG_TOKEN_TYPE, ...).
+export async function validateToken(
+  token: string,
+  overrides: Partial<TokenValidationPolicy> = {}
+): Promise<jwt.JwtPayload> {
+  const policy = { ...defaultTokenPolicy, ...overrides };
+
   //  **Step 1: Decode JWT (Extract Header)**
   const decodedToken = jwt.decode(token, { complete: true });
 
   // If decoding fails, the token is invalid
-  if (!decodedToken || !decodedToken.header.kid) {
-    throw new Error("Invalid token format");
+  if (!decodedToken || typeof decodedToken.payload === "string" || !decodedToken.header.kid) {
+    throw new AuthError("Authentication token is malformed", "MALFORMED_TOKEN");
   }
 
-  //  **Step 2: Fetch JWKs & Find Matching Key**
-  const jwks = await getJwks();
-  const key = jwks.find((k: any) => k.kid === decodedToken.header.kid);
-
-  if (!key) {
-    throw new Error("Invalid token signature: Key ID not found");
+  //  **Step 2: Look Up the Signing Key**
+  // The key store caches the identity provider's keys as PEMs and refetches them when a key rotates
+  const pem = await jwksKeyStore.getPem(decodedToken.header.kid);
+  if (!pem) {
+    throw new AuthError("Authentication token is signed with an unknown key", "INVALID_SIGNATURE");
   }
 
-  //  **Step 3: Convert JWK to PEM Format**
-  // PEM is required for JWT verification
-  const pem = jwkToPem(key);
-
-  //  **Step 4: Verify the JWT Token**
+  //  **Step 3: Verify the Signature and Time Claims**
+  let claims: jwt.JwtPayload;
   try {
-    const verifiedToken = jwt.verify(token, pem, {
-      issuer: `https://cognito-idp.${REGION}.amazonaws.com/${USER_POOL_ID}`, // Expected issuer
+    claims = jwt.verify(token, pem, {
+      issuer: identityProvider.issuer, // Expected issuer
       algorithms: ["RS256"], // Cognito uses RS256 (asymmetric encryption)
-    });
-
-    return verifiedToken; // Return decoded & verified JWT payload
+      clockTolerance: policy.clockToleranceSeconds,
+    }) as jwt.JwtPayload;
   } catch (error) {
-    console.error("JWT Verification Failed:", error);
-    throw new Error("Invalid token");
+    throw toVerificationError(error);
   }
+
+  // jsonwebtoken does not check that iat is in the past
+  if (typeof claims.iat === "number" && claims.iat > Date.now() / 1000 + policy.clockToleranceSeconds) {
+    throw new AuthError("Authentication token is not yet valid", "TOKEN_NOT_YET_VALID");
+  }
+
+  //  **Step 4: Apply the Policy**
+  // An ID token must not pass as an access token (or the other way round)
+  if (policy.allowedTokenUses.indexOf(claims.token_use) === -1) {
+    throw new AuthError(`Token type must be ${policy.allowedTokenUses.join(" or ")}`, "WRONG_TOKEN_TYPE");
+  }
+
+  const audience = claims.token_use === "id" ? claims.aud : claims.client_id;
+  if (typeof audience !== "string" || policy.clientIds.indexOf(audience) === -1) {
+    throw new AuthError("Authentication token was issued to another client", "WRONG_AUDIENCE");
+  }
+
+  if (policy.requiredScopes.length > 0) {
+    const scopes = typeof claims.scope === "string" ? claims.scope.split(" ") : [];
+    if (!policy.requiredScopes.every((scope) => scopes.indexOf(scope) !== -1)) {
+      throw new AppError("Insufficient scope for this resource", 403, "INSUFFICIENT_SCOPE");
+    }
+  }
+
+  if (policy.checkRevocation) {
+    let revoked: boolean;
+    try {
+      revoked = await tokenRevocationService.isRevoked(claims as RevocableTokenClaims);
+    } catch (error) {
+      // Fail closed: accepting a token we cannot check would let logged-out sessions back in
+      console.error("Failed to check token revocation:", error);
+      throw new AppError("Unable to verify the session. Please try again later.", 503, "REVOCATION_CHECK_FAILED");
+    }
+    if (revoked) throw new AuthError("Authentication token has been revoked", "TOKEN_REVOKED");
+  }
+
+  return claims; // Return decoded & verified JWT payload
+}
+
+//  **Function to Read the Access Token from a Request**
+// - Browsers send the `authToken` cookie; CLI and mobile clients send `Authorization: Bearer <token>`.
+// - Precedence: an Authorization header always wins over the cookie. A header that is present but not a
+//   Bearer token is rejected rather than ignored, so a client never silently falls back to a stale cookie.
+export function getAccessToken(request: FastifyRequest): string | undefined {
+  const header = request.headers.authorization;
+
+  if (header !== undefined) {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(header);
+    if (!match) {
+      throw new AuthError("Authorization header must be 'Bearer <token>'", "INVALID_AUTHORIZATION_HEADER");
+    }
+    return match[1];
+  }
+
+  return sessionCookies.read(request).accessToken;
+}
+
+//  **Function to Authenticate a Request**
+// - Reads and verifies the access token locally (no identity provider round trip) and rejects revoked sessions.
+// - Throws an AuthError with a specific code; routes that need custom failure handling call this directly.
+export async function authenticateRequest(
+  request: FastifyRequest,
+  policy: Partial<TokenValidationPolicy> = {}
+): Promise<AuthenticatedUser> {
+  // Extract JWT from the Authorization header or, failing that, the cookie
+  const token = getAccessToken(request);
+
+  if (!token) {
+    throw new AuthError("Authentication required", "MISSING_TOKEN");
+  }
+
+  // Validate the token against the policy (signature, expiry, type, audience, scopes, revocation)
+  return toAuthenticatedUser(await validateToken(token, policy));
+}
+
+//  **Authentication with a Route-Specific Policy**
+// - Like `server.authentication`, but e.g. `authenticate({ requiredScopes: ["reports/read"] })`.
+export function authenticate(policy: Partial<TokenValidationPolicy>) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    try {
+      request.user = await authenticateRequest(request, policy);
+    } catch (error) {
+      return sendErrorResponse(reply, error);
+    }
+  };
 }
 
 //  **Fastify Authentication Plugin**
 // - Registers `server.authentication` to validate JWTs in protected routes.
 const authPlugin: FastifyPluginCallback = (server, options, done) => {
   //  **Step 1: Attach Authentication Method to Fastify**
-  server.decorate("authentication", async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
-    try {
-      // Extract JWT from cookies instead of headers
-      const token = request.cookies.authToken;
-  
-      if (!token) {
-        return reply.code(401).send({ message: "No authentication token provided" });
-      }
-  
-      // Validate the token
-      const verifiedToken = await validateToken(token);
-  
-      // Attach user data to request (so routes can access it)
-      (request as any).user = verifiedToken;
-  
-    } catch (error) {
-      return reply.code(401).send({ message: "Invalid authentication token" });
-    }
-  });
+  // 401 bodies are built by `sendErrorResponse`, like every other error response
+  server.decorate("authentication", authenticate({}));
 
   //  **Step 5: Mark Plugin as Done**
   done();
@@ -0,0 +1,37 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { AppError, AuthError, sendErrorResponse } from "../utils/error-handler";
+
+//  **Authorization preHandlers**
+// - Run after `server.authentication`, which sets `request.user` from the verified access token.
+// - Usage: `preHandler: [server.authentication, requireRole("admin")]`
+type PreHandler = (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+
+//  **Require Membership in a Cognito Group**
+// - Passes when the user belongs to ANY of the given groups (`cognito:groups` claim).
+export function requireRole(...roles: string[]): PreHandler {
+  return async (request, reply) => {
+    if (!request.user) {
+      return sendErrorResponse(reply, new AuthError("Authentication required", "MISSING_TOKEN"));
+    }
+
+    if (!roles.some((role) => request.user.groups.indexOf(role) !== -1)) {
+      request.log.warn({ event: "authorization_denied", userId: request.user.userId, requiredRoles: roles });
+      return sendErrorResponse(reply, new AppError("Insufficient role for this resource", 403, "INSUFFICIENT_ROLE"));
+    }
+  };
+}
+
+//  **Require OAuth Scopes**
+// - Passes only when the token carries ALL of the given scopes (`scope` claim).
+export function requireScope(...scopes: string[]): PreHandler {
+  return async (request, reply) => {
+    if (!request.user) {
+      return sendErrorResponse(reply, new AuthError("Authentication required", "MISSING_TOKEN"));
+    }
+
+    if (!scopes.every((scope) => request.user.scopes.indexOf(scope) !== -1)) {
+      request.log.warn({ event: "authorization_denied", userId: request.user.userId, requiredScopes: scopes });
+      return sendErrorResponse(reply, new AppError("Insufficient scope for this resource", 403, "INSUFFICIENT_SCOPE"));
+    }
+  };
+}
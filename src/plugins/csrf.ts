@@ -0,0 +1,65 @@
+import { fastifyPlugin } from "fastify-plugin";
+import { FastifyPluginCallback } from "fastify";
+import * as crypto from "crypto";
+import config from "../config/config";
+import { CSRF_HEADER } from "../config/constants";
+import { AppError, sendErrorResponse } from "../utils/error-handler";
+import { sessionCookies } from "../utils/session-cookies";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+//  **Routes Without CSRF Checks**
+// - Sign-in and other public routes: they do not act on an existing session, and the client may not hold a
+//   CSRF token yet.
+// - Token-mode routes: their clients send a Bearer token, not cookies.
+const EXEMPT_ROUTES = [
+  "/users", // Signup, registered as "/" under the prefix, so matched with and without the trailing slash
+  "/users/",
+  "/users/confirm",
+  "/users/login",
+  "/users/login/challenge",
+  "/users/token",
+  "/users/token/challenge",
+  "/users/token/refresh",
+  "/users/forgot-password",
+  "/users/confirm-forgot-password",
+  "/users/resend-confirmation-code",
+  "/users/deletion/cancel", // Authorized by the emailed token; the account is disabled, so no session applies
+].map((route) => config.apiPrefix + route);
+
+const tokensMatch = (presented: string, expected: string) => {
+  const a = Buffer.from(presented);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+//  **Fastify CSRF Plugin**
+// - Double-submit check: a state-changing request that authenticates with session cookies must echo the
+//   session's CSRF token (issued at sign-in and by `GET /users/me`) in the `X-CSRF-Token` header.
+// - Requests with an Authorization header, or without session cookies, carry no ambient credentials to abuse.
+const csrfPlugin: FastifyPluginCallback = (server, options, done) => {
+  server.addHook("preHandler", async (request, reply) => {
+    if (SAFE_METHODS.indexOf(request.method) !== -1) return;
+    if (request.headers.authorization !== undefined) return;
+
+    const route = request.routeOptions.url;
+    if (!route || EXEMPT_ROUTES.indexOf(route) !== -1) return;
+
+    const { accessToken, refreshToken, csrfToken } = sessionCookies.read(request);
+    if (!accessToken && !refreshToken) return;
+
+    const presented = request.headers[CSRF_HEADER.toLowerCase()];
+    if (typeof presented !== "string" || !presented) {
+      request.log.warn({ event: "csrf_rejected", reason: "missing", path: route });
+      return sendErrorResponse(reply, new AppError("CSRF token is missing", 403, "CSRF_TOKEN_MISSING"));
+    }
+    if (!csrfToken || !tokensMatch(presented, csrfToken)) {
+      request.log.warn({ event: "csrf_rejected", reason: "mismatch", path: route });
+      return sendErrorResponse(reply, new AppError("CSRF token is invalid", 403, "CSRF_TOKEN_INVALID"));
+    }
+  });
+
+  done();
+};
+
+export default fastifyPlugin(csrfPlugin);
@@ -2,7 +2,14 @@
 
 import { FastifyInstance, FastifyPluginCallback, FastifyReply, FastifyRequest } from "fastify";
 import { fastifyPlugin } from "fastify-plugin";
-import { AppError, sendErrorResponse } from "../utils/error-handler";
+import { AppError, sendErrorResponse, ValidationError } from "../utils/error-handler";
+
+// Request start time, set in the onRequest hook below
+declare module "fastify" {
+  interface FastifyRequest {
+    startTime?: [number, number];
+  }
+}
 
 /**
  * Custom Fastify plugin to handle errors, including:
@@ -25,14 +32,9 @@ const errorHandlerPlugin: FastifyPluginCallback = (fastify: FastifyInstance, opt
       method: request.method, // HTTP method used
     });
 
-    // If the error is due to validation (from Fastify's built-in validation)
+    // Validation errors (from Fastify's built-in validation) carry field-level details
     if (error.validation) {
-      return reply.status(400).send({
-        error: "Validation error",
-        errorCode: "VALIDATION_ERROR",
-        details: error.validation, // Provide detailed validation errors
-        requestId: request.id, // Attach request ID for debugging
-      });
+      return sendErrorResponse(reply, new ValidationError(error), request.id);
     }
 
     // For all other errors, use a centralized error response handler
@@ -50,11 +52,7 @@ const errorHandlerPlugin: FastifyPluginCallback = (fastify: FastifyInstance, opt
     });
 
     // Send 404 response
-    reply.status(404).send({
-      error: "Route not found",
-      errorCode: "NOT_FOUND",
-      requestId: request.id,
-    });
+    return sendErrorResponse(reply, new AppError("Route not found", 404, "NOT_FOUND"), request.id);
   });
 
   // 3️⃣ Hook to track request start times and assign unique IDs
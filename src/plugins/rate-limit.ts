@@ -0,0 +1,137 @@
+import { fastifyPlugin } from "fastify-plugin";
+import { FastifyPluginCallback, FastifyReply, FastifyRequest } from "fastify";
+import rateLimitStore from "../services/rate-limit";
+import { hashToken } from "../utils/crypto-utils";
+import { AppError, sendErrorResponse } from "../utils/error-handler";
+
+//  **Rate Limit Policies**
+// - Every rule of a policy counts separately; a request over any of them is rejected.
+// - `ip` counts per client address, `email` per address submitted in the body (`user.email` or `email`), so
+//   one account cannot be targeted from many addresses and one address cannot target many accounts.
+// - `user` counts per authenticated user (`request.user`), so a signed-in user cannot get around a limit by
+//   switching addresses; the route must authenticate before the policy runs.
+// - Fixed windows: counters reset at the end of each window.
+interface RateLimitRule {
+  by: "ip" | "email" | "user";
+  limit: number;
+  windowSeconds: number;
+}
+
+export const RATE_LIMIT_POLICIES = {
+  // Every route, applied by the plugin
+  global: [{ by: "ip", limit: 100, windowSeconds: 60 }],
+  signup: [{ by: "ip", limit: 10, windowSeconds: 60 * 60 }],
+  login: [
+    { by: "ip", limit: 30, windowSeconds: 15 * 60 },
+    { by: "email", limit: 10, windowSeconds: 15 * 60 },
+  ],
+  // Clients refresh about once an hour, so this only stops refresh tokens being tried in bulk
+  tokenRefresh: [
+    { by: "ip", limit: 60, windowSeconds: 15 * 60 },
+    { by: "email", limit: 20, windowSeconds: 15 * 60 },
+  ],
+  passwordReset: [
+    { by: "ip", limit: 10, windowSeconds: 60 * 60 },
+    { by: "email", limit: 5, windowSeconds: 60 * 60 },
+  ],
+  confirmationCode: [
+    { by: "ip", limit: 10, windowSeconds: 60 * 60 },
+    { by: "email", limit: 5, windowSeconds: 60 * 60 },
+  ],
+  support: [
+    { by: "ip", limit: 5, windowSeconds: 60 * 60 },
+    { by: "email", limit: 5, windowSeconds: 60 * 60 },
+  ],
+  dataExport: [
+    { by: "ip", limit: 5, windowSeconds: 60 * 60 },
+    { by: "user", limit: 5, windowSeconds: 60 * 60 },
+  ],
+} satisfies Record<string, RateLimitRule[]>;
+
+export type RateLimitPolicy = keyof typeof RATE_LIMIT_POLICIES;
+
+// Routes the global policy does not apply to
+const UNLIMITED_ROUTES = ["/health"];
+
+const submittedEmail = (request: FastifyRequest): string | undefined => {
+  const body = request.body as { user?: { email?: unknown }; email?: unknown } | undefined;
+  const email = body?.user?.email ?? body?.email;
+  return typeof email === "string" && email ? email.trim().toLowerCase() : undefined;
+};
+
+// Counter key of a rule for this request and window; emails are hashed so the store holds no addresses
+const counterKey = (policy: string, rule: RateLimitRule, request: FastifyRequest, windowStart: number) => {
+  const identifier =
+    rule.by === "ip" ? request.ip : rule.by === "user" ? request.user?.userId : submittedEmail(request);
+  if (!identifier) return undefined;
+  const subject = rule.by === "email" ? hashToken(identifier) : identifier;
+  return `${policy}:${rule.by}:${subject}:${windowStart}`;
+};
+
+//  **Apply a Policy**
+// - Sets the IETF draft `RateLimit-Limit`/`-Remaining`/`-Reset` headers for the rule closest to its limit,
+//   and `Retry-After` when rejecting.
+// - The store failing lets the request through (logged): rate limiting must not take the API down.
+const enforce = async (policy: RateLimitPolicy, request: FastifyRequest, reply: FastifyReply) => {
+  const now = Math.floor(Date.now() / 1000);
+  let tightest: { limit: number; remaining: number; resetIn: number } | undefined;
+  let retryAfter = 0;
+
+  for (const rule of RATE_LIMIT_POLICIES[policy] as RateLimitRule[]) {
+    const windowStart = now - (now % rule.windowSeconds);
+    const resetAt = windowStart + rule.windowSeconds;
+    const key = counterKey(policy, rule, request, windowStart);
+    if (!key) continue;
+
+    let hits: number;
+    try {
+      hits = await rateLimitStore.increment(key, resetAt);
+    } catch (error) {
+      request.log.error({ event: "rate_limit_store_failed", store: rateLimitStore.name, policy, err: error });
+      continue;
+    }
+
+    const remaining = Math.max(rule.limit - hits, 0);
+    if (!tightest || remaining < tightest.remaining) {
+      tightest = { limit: rule.limit, remaining, resetIn: resetAt - now };
+    }
+    if (hits > rule.limit) {
+      retryAfter = Math.max(retryAfter, resetAt - now);
+      request.log.warn({ event: "rate_limited", policy, by: rule.by, limit: rule.limit, ip: request.ip });
+    }
+  }
+
+  if (tightest) {
+    reply.header("RateLimit-Limit", tightest.limit);
+    reply.header("RateLimit-Remaining", tightest.remaining);
+    reply.header("RateLimit-Reset", tightest.resetIn);
+  }
+  if (retryAfter > 0) {
+    reply.header("Retry-After", retryAfter);
+    return sendErrorResponse(
+      reply,
+      new AppError("Too many requests. Please try again later.", 429, "RATE_LIMITED"),
+      request.id
+    );
+  }
+};
+
+//  **Per-Route Rate Limit preHandler**
+// - Runs after body parsing, so `email` rules see the submitted address.
+// - Usage: `preHandler: rateLimit("login")`
+export function rateLimit(policy: RateLimitPolicy) {
+  return async (request: FastifyRequest, reply: FastifyReply) => enforce(policy, request, reply);
+}
+
+//  **Fastify Rate Limit Plugin**
+// - Applies the global policy to every route before anything else runs.
+const rateLimitPlugin: FastifyPluginCallback = (server, options, done) => {
+  server.addHook("onRequest", async (request, reply) => {
+    if (UNLIMITED_ROUTES.indexOf(request.routeOptions.url) !== -1) return;
+    return enforce("global", request, reply);
+  });
+
+  done();
+};
+
+export default fastifyPlugin(rateLimitPlugin);
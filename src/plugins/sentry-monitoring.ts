@@ -1,29 +1,30 @@
 import { FastifyInstance, FastifyPluginCallback } from "fastify";
 import fp from "fastify-plugin";
 import * as Sentry from "@sentry/node";
+import config from "../config/config";
 
 const errorMonitoringPlugin: FastifyPluginCallback = (fastify: FastifyInstance, options, done) => {
   // Skip initializing Sentry in test environment to avoid unnecessary logging
-  if (process.env.NODE_ENV === "test") {
+  if (config.env === "test") {
     fastify.log.info("Skipping Sentry initialization in test environment");
     return done();
   }
 
-  if (!process.env.SENTRY_DSN) {
+  if (!config.sentryDsn) {
     fastify.log.warn("SENTRY_DSN is not set. Sentry monitoring is disabled.");
     return done();
   }
 
   // Initialize Sentry with necessary configurations
   Sentry.init({
-    dsn: process.env.SENTRY_DSN,
-    environment: process.env.NODE_ENV,
+    dsn: config.sentryDsn,
+    environment: config.env,
     integrations: [
       // Core Node.js functionality
       Sentry.httpIntegration(),
     ],
     // Transaction sampling (can adjust based on performance needs)
-    tracesSampleRate: process.env.NODE_ENV === "production" ? 0.1 : 1.0,
+    tracesSampleRate: config.env === "production" ? 0.1 : 1.0,
   });
 
   console.log("✅ Sentry is initialized and connected");
@@ -55,7 +56,6 @@ const errorMonitoringPlugin: FastifyPluginCallback = (fastify: FastifyInstance,
     done();
   });
 
-
   done();
 };
 
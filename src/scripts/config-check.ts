@@ -0,0 +1,30 @@
+// Validates configuration without starting the server.
+//   npm run config:check                 checks the current environment (process env, .env files, CONFIG_FILE)
+//   npm run config:check -- env.json     checks only the given JSON or dotenv file
+// Prints the resulting configuration with secrets redacted, or every problem found; exits 1 when invalid.
+
+import { RawSettings } from "../config/config-schema";
+import { loadConfig, ConfigError, readSettingsFile, redactedConfig, validateSettings } from "../config/load-config";
+
+const check = (file?: string) => {
+  if (!file) {
+    return loadConfig();
+  }
+
+  const raw: RawSettings = readSettingsFile(file);
+  const { config, settings, problems } = validateSettings(raw);
+  if (!config) {
+    throw new ConfigError(problems);
+  }
+  return redactedConfig(settings);
+};
+
+try {
+  const file = process.argv[2];
+  // Printed through toJSON/redactedConfig, so secrets never appear
+  console.log(JSON.stringify(check(file), null, 2));
+  console.log(`\n✅ Configuration is valid${file ? ` (${file})` : ""}`);
+} catch (error) {
+  console.error(`❌ ${error.message || error}`);
+  process.exit(1);
+}
@@ -1,20 +1,27 @@
 // server.ts
 import "reflect-metadata";
-import fastify, { FastifyInstance, FastifyRequest } from "fastify";
+import fastify, { FastifyInstance } from "fastify";
 import { v4 as uuidv4 } from "uuid";
 import cors from "@fastify/cors";
 import fastifyCookie from "@fastify/cookie";
 import fastifyHelmet from "@fastify/helmet";
-import fastifyRateLimit from "@fastify/rate-limit";
 import * as Sentry from "@sentry/node";
 import sentryMonitoring from "./plugins/sentry-monitoring";
 import config from "./config/config";
 import corsConfig from "./config/corsConfig";
 import { userController } from "./controllers/user-controllers";
+import { devController } from "./controllers/dev-controllers";
+import { supportTicketController } from "./controllers/support-ticket-controllers";
+import { adminUserController } from "./controllers/admin-user-controllers";
+import { adminAuditController } from "./controllers/admin-audit-controllers";
+import audit from "./plugins/audit";
 import auth from "./plugins/auth";
+import csrf from "./plugins/csrf";
+import rateLimitPlugin from "./plugins/rate-limit";
 import errorPlugin from "./plugins/error-handler";
 import { sendErrorResponse } from "./utils/error-handler";
 import logger, { loggerOptions } from "./utils/logger";
+import { jwksKeyStore } from "./services/jwks-key-store";
 
 class Application {
   server: FastifyInstance;
@@ -25,7 +32,8 @@ class Application {
       genReqId: (request) => {
         return (request.headers["x-request-id"] as string) || uuidv4();
       },
-      trustProxy: process.env.NODE_ENV === "production", // Trust proxy headers in production
+      // Only the entries our own proxies appended; anything further left is whatever the client sent
+      trustProxy: config.trustProxyHops,
       keepAliveTimeout: 60000,
       connectionTimeout: 60000,
     });
@@ -44,38 +52,29 @@ class Application {
   }
 
   registerPlugins() {
-    const env = (process.env.NODE_ENV as keyof typeof corsConfig) || "development";
     // Register Sentry monitoring first
     this.server.register(sentryMonitoring);
     // Register security plugins
     this.server.register(fastifyHelmet);
 
     // Register CORS
-    this.server.register(cors, corsConfig[env]);
-
-    // Register cookie handling
-    this.server.register(fastifyCookie, {
-      parseOptions: {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "strict",
-        path: "/",
-        maxAge: 60 * 60 * 24 * 7, // 1 week
-        domain: process.env.NODE_ENV === "production" ? ".jonathanmau.com" : "localhost",
-      },
-    });
+    this.server.register(cors, corsConfig);
+
+    // Register cookie handling; session cookie options live in utils/session-cookies
+    this.server.register(fastifyCookie);
 
-    // Rate limiting for security
-    this.server.register(fastifyRateLimit, {
-      max: 100,
-      timeWindow: "1 minute",
-      // Skip rate limiting for health checks
-      skip: (request: FastifyRequest) => request.url.startsWith("/health"),
-    } as any);
+    // Rate limiting for security: a global per-IP limit here, stricter policies on sensitive routes
+    this.server.register(rateLimitPlugin);
 
     // Register authentication plugin
     this.server.register(auth);
 
+    // Register CSRF protection for cookie-authenticated requests
+    this.server.register(csrf);
+
+    // Record authentication audit events for the routes that opt in
+    this.server.register(audit);
+
     // Register request tracking and error handling
     this.server.register(errorPlugin);
   }
@@ -83,17 +82,35 @@ class Application {
   registerControllers() {
     // Health check endpoint for load balancers
     this.server.get("/health", async (request, reply) => {
-      return { status: "ok", timestamp: new Date().toISOString() };
+      return { status: "ok", timestamp: new Date().toISOString(), jwks: jwksKeyStore.stats() };
     });
 
     // Register user routes
     this.server.register(userController, {
       prefix: `${config.apiPrefix}/users`,
     });
+
+    // Register admin routes
+    this.server.register(supportTicketController, {
+      prefix: `${config.apiPrefix}/admin/support-tickets`,
+    });
+    this.server.register(adminUserController, {
+      prefix: `${config.apiPrefix}/admin/users`,
+    });
+    this.server.register(adminAuditController, {
+      prefix: `${config.apiPrefix}/admin/audit-events`,
+    });
+
+    // Register development helpers (email template previews, outbox viewer) outside production
+    if (config.env !== "production") {
+      this.server.register(devController, {
+        prefix: `${config.apiPrefix}/dev`,
+      });
+    }
   }
 
   async main() {
-    this.server.log.info(`Starting server in ${process.env.NODE_ENV || "development"} mode`);
+    this.server.log.info(`Starting server in ${config.env} mode`);
 
     // Register all middleware
     this.registerPlugins();
@@ -101,6 +118,9 @@ class Application {
     // Register all route controllers
     this.registerControllers();
 
+    // Load the token signing keys before the first request
+    await jwksKeyStore.warm();
+
     // Start HTTP server
     await this.startHttpServer();
   }
@@ -115,7 +135,7 @@ class Application {
         await this.server.close();
 
         // Close Sentry if it's being used
-        if (process.env.SENTRY_DSN) {
+        if (config.sentryDsn) {
           await Sentry.close(2000);
         }
 
@@ -133,19 +153,6 @@ class Application {
   }
 }
 
-// Extend Fastify request interface
-declare module "fastify" {
-  interface FastifyRequest {
-    startTime?: [number, number];
-    user?: {
-      userId: string;
-      email: string;
-      firstName?: string;
-      lastName?: string;
-    };
-  }
-}
-
 // Create and start application
 const appInstance = new Application();
 appInstance.setupGracefulShutdown();
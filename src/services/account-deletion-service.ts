@@ -0,0 +1,183 @@
+import {
+  AdminDeleteUserCommand,
+  AdminDisableUserCommand,
+  AdminEnableUserCommand,
+} from "@aws-sdk/client-cognito-identity-provider";
+import { DeleteCommand, GetCommand, PutCommand, ScanCommand, ScanCommandOutput } from "@aws-sdk/lib-dynamodb";
+import cognitoClient from "../config/cognito";
+import dynamoDocClient from "../config/dynamodb";
+import config from "../config/config";
+import { generateToken, hashToken, matchesTokenHash } from "../utils/crypto-utils";
+import { AppError, handleCognitoError } from "../utils/error-handler";
+import { sendTemplatedEmail } from "./email-service";
+import { resolveLocale } from "./email/templates";
+import { tokenRevocationService } from "./token-revocation-service";
+import { LoginAttempt } from "./login-guard-service";
+import { userService } from "./user-service";
+
+const USER_POOL_ID = config.cognito.userPoolId;
+const SUPPORT_EMAIL = config.supportEmail;
+const TABLE_NAME = config.accountDeletion.tableName;
+
+const DAY_IN_SECONDS = 24 * 60 * 60;
+
+/**
+ * A pending account deletion, keyed by Cognito username (the user's email).
+ * Deliberately without a TTL: it is only removed once the user is deleted or the deletion is cancelled, so a
+ * processor failing for days retries instead of leaving the account disabled forever.
+ */
+interface DeletionRequest {
+  username: string;
+  userId: string;
+  requestedAt: string; // ISO timestamp
+  deleteAfter: number; // Epoch seconds; the account is deleted on the first run after this
+  cancelTokenHash: string;
+}
+
+// Without a table, pending deletions are kept per process (local development)
+const memoryRequests = new Map<string, DeletionRequest>();
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+const saveRequest = async (request: DeletionRequest) => {
+  if (!TABLE_NAME) {
+    memoryRequests.set(request.username, request);
+    return;
+  }
+  await dynamoDocClient.send(new PutCommand({ TableName: TABLE_NAME, Item: request }));
+};
+
+const loadRequest = async (username: string): Promise<DeletionRequest | undefined> => {
+  if (!TABLE_NAME) return memoryRequests.get(username);
+  const { Item } = await dynamoDocClient.send(new GetCommand({ TableName: TABLE_NAME, Key: { username } }));
+  return Item as DeletionRequest | undefined;
+};
+
+const deleteRequest = async (username: string) => {
+  if (!TABLE_NAME) {
+    memoryRequests.delete(username);
+    return;
+  }
+  await dynamoDocClient.send(new DeleteCommand({ TableName: TABLE_NAME, Key: { username } }));
+};
+
+// Every request whose grace period has ended
+const listDueRequests = async (now: number): Promise<DeletionRequest[]> => {
+  const due: DeletionRequest[] = [];
+  if (!TABLE_NAME) {
+    memoryRequests.forEach((request) => {
+      if (request.deleteAfter <= now) due.push(request);
+    });
+    return due;
+  }
+
+  let lastEvaluatedKey: ScanCommandOutput["LastEvaluatedKey"];
+  do {
+    const page: ScanCommandOutput = await dynamoDocClient.send(
+      new ScanCommand({
+        TableName: TABLE_NAME,
+        FilterExpression: "deleteAfter <= :now",
+        ExpressionAttributeValues: { ":now": now },
+        ExclusiveStartKey: lastEvaluatedKey,
+      })
+    );
+    due.push(...((page.Items || []) as DeletionRequest[]));
+    lastEvaluatedKey = page.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+  return due;
+};
+
+export const accountDeletionService = {
+  // schedule deletion: requires the current password, disables the account right away and emails a cancel link
+  async requestDeletion(token: string, password: string, attempt: LoginAttempt) {
+    const user = await userService.verifyUser(token);
+
+    // Re-authenticate through the login guard; a challenge (e.g. MFA) still means the password was correct
+    try {
+      await userService.login({ email: user.email, password }, attempt);
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+
+    const cancelToken = generateToken();
+    const deleteAfter = nowInSeconds() + config.accountDeletion.gracePeriodDays * DAY_IN_SECONDS;
+    const request: DeletionRequest = {
+      username: user.email,
+      userId: user.userId,
+      requestedAt: new Date().toISOString(),
+      deleteAfter,
+      cancelTokenHash: hashToken(cancelToken),
+    };
+    await saveRequest(request);
+
+    // Send the cancel link before disabling: a disabled user without it could not undo the request
+    const cancelUrl =
+      `${config.apiBaseUrl}${config.apiPrefix}/users/deletion/cancel` +
+      `?username=${encodeURIComponent(user.email)}&token=${cancelToken}`;
+    const deletionDate = new Date(deleteAfter * 1000).toISOString();
+    try {
+      await sendTemplatedEmail({
+        to: user.email,
+        from: SUPPORT_EMAIL,
+        template: "accountDeletionScheduled",
+        locale: resolveLocale(user.locale, attempt.acceptLanguage),
+        variables: { firstName: user.firstName, deletionDate, cancelUrl },
+      });
+    } catch (error) {
+      await deleteRequest(user.email);
+      throw error;
+    }
+
+    // Without the disable the request failed, so drop it: otherwise the account would still be deleted later
+    try {
+      await cognitoClient.send(new AdminDisableUserCommand({ UserPoolId: USER_POOL_ID, Username: user.email }));
+    } catch (error) {
+      await deleteRequest(user.email);
+      throw handleCognitoError(error);
+    }
+    await tokenRevocationService.revokeAllSessions(user.userId);
+
+    return { deleteAfter: deletionDate };
+  },
+
+  // cancel a pending deletion (confirmed on the page the emailed link opens) and re-enable the account
+  async cancelDeletion(username: string, cancelToken: string) {
+    const request = await loadRequest(username);
+
+    // Same error for unknown users and wrong tokens so the link cannot be used to probe accounts
+    if (!request || !matchesTokenHash(cancelToken, request.cancelTokenHash)) {
+      throw new AppError("Deletion request not found or already processed.", 404, "DELETION_REQUEST_NOT_FOUND");
+    }
+
+    try {
+      await cognitoClient.send(new AdminEnableUserCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+    await deleteRequest(username);
+  },
+
+  // delete every account whose grace period has ended; run on a schedule
+  async processDueDeletions() {
+    const now = nowInSeconds();
+    let deleted = 0;
+    let failed = 0;
+
+    for (const { username } of await listDueRequests(now)) {
+      try {
+        await cognitoClient.send(new AdminDeleteUserCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+      } catch (error) {
+        // Already gone (e.g. removed by an admin) counts as done
+        if (error?.name !== "UserNotFoundException") {
+          console.error(`Failed to delete user ${username}:`, error);
+          failed++;
+          continue;
+        }
+      }
+      await deleteRequest(username);
+      deleted++;
+    }
+
+    return { deleted, failed };
+  },
+};
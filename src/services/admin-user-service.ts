@@ -0,0 +1,188 @@
+import {
+  AdminConfirmSignUpCommand,
+  AdminDisableUserCommand,
+  AdminEnableUserCommand,
+  AdminGetUserCommand,
+  AdminResetUserPasswordCommand,
+  AdminUserGlobalSignOutCommand,
+  AttributeType,
+  ListUsersCommand,
+} from "@aws-sdk/client-cognito-identity-provider";
+import cognitoClient from "../config/cognito";
+import config from "../config/config";
+import { AppError, handleCognitoError } from "../utils/error-handler";
+import identityProvider from "./identity";
+import { loginGuardService } from "./login-guard-service";
+import { tokenRevocationService } from "./token-revocation-service";
+
+const USER_POOL_ID = config.cognito.userPoolId;
+
+/**
+ * A user as shown to support staff.
+ */
+export interface AdminUser {
+  username: string;
+  userId: string | null;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  status: string; // Cognito UserStatus, e.g. "CONFIRMED" or "UNCONFIRMED"
+  enabled: boolean;
+  createdAt: string | null;
+  lastModifiedAt: string | null;
+  attributes: Record<string, string>;
+}
+
+export interface ListUsersOptions {
+  search?: string; // Email prefix
+  status?: string; // Exact Cognito UserStatus
+  limit?: number;
+  paginationToken?: string;
+}
+
+// Values are embedded in a quoted Cognito filter expression
+const escapeFilterValue = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+const toAdminUser = (user: {
+  Username?: string;
+  Attributes?: AttributeType[];
+  UserAttributes?: AttributeType[];
+  UserStatus?: string;
+  Enabled?: boolean;
+  UserCreateDate?: Date;
+  UserLastModifiedDate?: Date;
+}): AdminUser => {
+  const attributes: Record<string, string> = {};
+  for (const attr of user.Attributes || user.UserAttributes || []) {
+    attributes[attr.Name] = attr.Value;
+  }
+
+  return {
+    username: user.Username,
+    userId: attributes.sub || null,
+    email: attributes.email || null,
+    firstName: attributes.given_name || null,
+    lastName: attributes.family_name || null,
+    status: user.UserStatus,
+    enabled: user.Enabled,
+    createdAt: user.UserCreateDate?.toISOString() || null,
+    lastModifiedAt: user.UserLastModifiedDate?.toISOString() || null,
+    attributes,
+  };
+};
+
+export const adminUserService = {
+  // list users one page at a time; Cognito allows a single filter, so search and status are exclusive
+  async listUsers({ search, status, limit = 25, paginationToken }: ListUsersOptions) {
+    if (search && status) {
+      throw new AppError("Filter by either search or status, not both", 400, "INVALID_USER_FILTER");
+    }
+
+    let filter: string | undefined;
+    if (search) filter = `email ^= "${escapeFilterValue(search)}"`;
+    if (status) filter = `cognito:user_status = "${escapeFilterValue(status)}"`;
+
+    try {
+      const response = await cognitoClient.send(
+        new ListUsersCommand({
+          UserPoolId: USER_POOL_ID,
+          Filter: filter,
+          Limit: limit,
+          PaginationToken: paginationToken,
+        })
+      );
+      return {
+        users: (response.Users || []).map(toAdminUser),
+        paginationToken: response.PaginationToken || null,
+      };
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+  },
+
+  async getUser(username: string) {
+    try {
+      const response = await cognitoClient.send(
+        new AdminGetUserCommand({ UserPoolId: USER_POOL_ID, Username: username })
+      );
+      return {
+        ...toAdminUser(response),
+        mfa: {
+          enabled: (response.UserMFASettingList || []).length > 0,
+          preferred: response.PreferredMfaSetting || null,
+          methods: response.UserMFASettingList || [],
+        },
+      };
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+  },
+
+  // disabling also ends the user's sessions here, since access tokens stay valid until they expire
+  async disableUser(username: string) {
+    const user = await adminUserService.getUser(username);
+    try {
+      await cognitoClient.send(new AdminDisableUserCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+    if (user.userId) await tokenRevocationService.revokeAllSessions(user.userId);
+  },
+
+  async enableUser(username: string) {
+    try {
+      await cognitoClient.send(new AdminEnableUserCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+  },
+
+  // invalidate the password and email the user a reset code; they must use forgot-password to sign in again
+  async resetPassword(username: string) {
+    try {
+      await cognitoClient.send(new AdminResetUserPasswordCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+  },
+
+  async resendConfirmationCode(username: string) {
+    try {
+      await identityProvider.resendConfirmationCode(username);
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+  },
+
+  // confirm a sign-up without the emailed code, e.g. when the user never received it
+  async confirmUser(username: string) {
+    try {
+      await cognitoClient.send(new AdminConfirmSignUpCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+  },
+
+  // revoke every refresh token and reject the user's outstanding access tokens
+  async signOutUser(username: string) {
+    const user = await adminUserService.getUser(username);
+    try {
+      await cognitoClient.send(new AdminUserGlobalSignOutCommand({ UserPoolId: USER_POOL_ID, Username: username }));
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+    if (user.userId) await tokenRevocationService.revokeAllSessions(user.userId);
+  },
+
+  // failed sign-ins and lockout of the account, tracked by the login guard under the user's email
+  async getLockStatus(username: string) {
+    const user = await adminUserService.getUser(username);
+    return loginGuardService.getAccountStatus(user.email || username);
+  },
+
+  // lift a lockout early, e.g. once the owner has confirmed the failed attempts were theirs
+  async unlockUser(username: string) {
+    const user = await adminUserService.getUser(username);
+    await loginGuardService.clearAccount(user.email || username);
+  },
+};
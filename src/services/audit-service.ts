@@ -0,0 +1,210 @@
+import { PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { v4 as uuidv4 } from "uuid";
+import dynamoDocClient from "../config/dynamodb";
+import config from "../config/config";
+import { AppError } from "../utils/error-handler";
+
+const TABLE_NAME = config.auditEvents.tableName;
+const RETENTION_SECONDS = config.auditEvents.retentionDays * 24 * 60 * 60;
+
+export const AUDIT_EVENT_TYPES = [
+  "sign_up",
+  "sign_up_confirm",
+  "confirmation_code_resend",
+  "login",
+  "login_challenge",
+  "token_refresh",
+  "logout",
+  "logout_all",
+  "password_change",
+  "password_reset_request",
+  "password_reset",
+  "mfa_setup",
+  "mfa_verify",
+  "mfa_preference",
+  "profile_view",
+  "profile_update",
+  "activity_view",
+  "account_deletion_request",
+  "account_deletion_cancel",
+  "data_export",
+  "data_export_download",
+  "support_request",
+] as const;
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+// Events shown to users as their recent security activity; reads like profile views are left out
+export const SECURITY_EVENT_TYPES: AuditEventType[] = [
+  "login",
+  "login_challenge",
+  "logout_all",
+  "password_change",
+  "password_reset_request",
+  "password_reset",
+  "mfa_setup",
+  "mfa_verify",
+  "mfa_preference",
+  "account_deletion_request",
+  "account_deletion_cancel",
+  "data_export",
+];
+
+/**
+ * One authentication-related request, as recorded by the audit plugin.
+ */
+export interface AuditEvent {
+  eventId: string;
+  type: AuditEventType;
+  occurredAt: string; // ISO timestamp
+  userId?: string; // Cognito sub, when the request carried a valid token
+  email?: string; // Signed-in user's email, or the address submitted in the body
+  ip: string;
+  userAgent?: string;
+  requestId: string;
+  outcome: "success" | "failure";
+  statusCode: number;
+  errorCode?: string; // `errorCode` of the error response
+}
+
+// As stored: partitioned by user, sorted by time
+interface StoredAuditEvent extends AuditEvent {
+  userKey: string; // Lowercased email, else "sub:<userId>", else "anonymous"
+  eventKey: string; // "<occurredAt>#<eventId>", unique and in time order
+  expiresAt: number; // Epoch seconds; DynamoDB TTL
+}
+
+export interface AuditEventQuery {
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, inclusive
+  types?: AuditEventType[];
+  limit?: number;
+  cursor?: string;
+}
+
+// Pages read at most for /me/activity, which filters out non-security events
+const MAX_ACTIVITY_PAGES = 5;
+
+// Without a table, events are kept per process, newest last
+const MAX_MEMORY_EVENTS_PER_USER = 500;
+const memoryEvents = new Map<string, StoredAuditEvent[]>();
+
+export const userKeyFor = ({ email, userId }: { email?: string; userId?: string }) =>
+  email ? email.trim().toLowerCase() : userId ? `sub:${userId}` : "anonymous";
+
+const toAuditEvent = ({ userKey, eventKey, expiresAt, ...event }: StoredAuditEvent): AuditEvent => event;
+
+// DynamoDB pagination keys are handed to clients as opaque cursors
+const encodeCursor = (key: Record<string, any> | undefined) =>
+  key ? Buffer.from(JSON.stringify(key)).toString("base64") : null;
+
+const decodeCursor = (cursor: string | undefined) => {
+  if (!cursor) return undefined;
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64").toString("utf8"));
+  } catch (error) {
+    throw new AppError("Invalid pagination cursor", 400, "INVALID_CURSOR");
+  }
+};
+
+// Same results as the table query, newest first
+const queryMemory = (userKey: string, { from, to, types, limit = 25, cursor }: AuditEventQuery) => {
+  const before: string | undefined = decodeCursor(cursor)?.eventKey;
+  const matching = (memoryEvents.get(userKey) || [])
+    .filter(
+      (event) =>
+        (!from || event.occurredAt >= from) &&
+        (!to || event.occurredAt <= to) &&
+        (!before || event.eventKey < before) &&
+        (!types || types.indexOf(event.type) !== -1)
+    )
+    .reverse();
+  const page = matching.slice(0, limit);
+  return {
+    events: page.map(toAuditEvent),
+    nextCursor: matching.length > limit ? encodeCursor({ eventKey: page[page.length - 1].eventKey }) : null,
+  };
+};
+
+export const auditService = {
+  // append an event; callers decide whether a failed write matters (the audit plugin only logs it)
+  async record(event: Omit<AuditEvent, "eventId" | "occurredAt">) {
+    const eventId = uuidv4();
+    const occurredAt = new Date().toISOString();
+    const item: StoredAuditEvent = {
+      ...event,
+      eventId,
+      occurredAt,
+      userKey: userKeyFor(event),
+      eventKey: `${occurredAt}#${eventId}`,
+      expiresAt: Math.floor(Date.now() / 1000) + RETENTION_SECONDS,
+    };
+
+    if (!TABLE_NAME) {
+      const events = memoryEvents.get(item.userKey) || [];
+      events.push(item);
+      if (events.length > MAX_MEMORY_EVENTS_PER_USER) events.shift();
+      memoryEvents.set(item.userKey, events);
+      return;
+    }
+    await dynamoDocClient.send(new PutCommand({ TableName: TABLE_NAME, Item: item }));
+  },
+
+  // a user's events (by email, or "sub:<userId>" for requests without one), newest first.
+  // With `types`, a page may hold fewer than `limit` events: DynamoDB filters after reading the page.
+  async listEvents(user: { email?: string; userId?: string }, query: AuditEventQuery = {}) {
+    // Stored timestamps are UTC ISO strings, so bounds must be too for string comparison
+    const from = query.from && new Date(query.from).toISOString();
+    const to = query.to && new Date(query.to).toISOString();
+    if (from && to && from > to) {
+      throw new AppError("The time range must not end before it starts", 400, "INVALID_TIME_RANGE");
+    }
+
+    const userKey = userKeyFor(user);
+    if (!TABLE_NAME) return queryMemory(userKey, { ...query, from, to });
+
+    const { types, limit = 25, cursor } = query;
+    // "#" sorts before every character of a timestamp suffix, "~" after it
+    const values: Record<string, any> = {
+      ":userKey": userKey,
+      ":from": from || "0",
+      ":to": to ? `${to}#~` : "~",
+    };
+    let filter: string | undefined;
+    if (types) {
+      const placeholders = types.map((type, index) => `:type${index}`);
+      types.forEach((type, index) => (values[placeholders[index]] = type));
+      filter = `#type IN (${placeholders.join(", ")})`;
+    }
+
+    const response = await dynamoDocClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: "userKey = :userKey AND eventKey BETWEEN :from AND :to",
+        FilterExpression: filter,
+        ExpressionAttributeNames: filter ? { "#type": "type" } : undefined,
+        ExpressionAttributeValues: values,
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: decodeCursor(cursor),
+      })
+    );
+
+    return {
+      events: ((response.Items || []) as StoredAuditEvent[]).map(toAuditEvent),
+      nextCursor: encodeCursor(response.LastEvaluatedKey),
+    };
+  },
+
+  // the user's latest security events, reading further pages while filtered-out events leave room
+  async recentSecurityEvents(user: { email?: string; userId?: string }, limit: number) {
+    const events: AuditEvent[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_ACTIVITY_PAGES && events.length < limit; page++) {
+      const result = await auditService.listEvents(user, { types: SECURITY_EVENT_TYPES, limit, cursor });
+      events.push(...result.events);
+      if (!result.nextCursor) break;
+      cursor = result.nextCursor;
+    }
+    return events.slice(0, limit);
+  },
+};
@@ -0,0 +1,155 @@
+import { AdminGetUserCommand } from "@aws-sdk/client-cognito-identity-provider";
+import { GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { v4 as uuidv4 } from "uuid";
+import cognitoClient from "../config/cognito";
+import dynamoDocClient from "../config/dynamodb";
+import config from "../config/config";
+import { DATA_EXPORT_LINK_TTL_HOURS } from "../config/constants";
+import { generateToken, hashToken, matchesTokenHash } from "../utils/crypto-utils";
+import { AppError, handleCognitoError } from "../utils/error-handler";
+import { sendTemplatedEmail } from "./email-service";
+import { resolveLocale } from "./email/templates";
+import { SupportTicket, supportTicketService } from "./support-ticket-service";
+import { userService } from "./user-service";
+
+const USER_POOL_ID = config.cognito.userPoolId;
+const SUPPORT_EMAIL = config.supportEmail;
+const TABLE_NAME = config.dataExport.tableName;
+
+/**
+ * Everything we hold about a user, as delivered to them.
+ */
+export interface DataExport {
+  exportedAt: string;
+  account: {
+    username: string;
+    status: string;
+    enabled: boolean;
+    createdAt: string | null;
+    lastModifiedAt: string | null;
+  };
+  attributes: Record<string, string>; // Every Cognito attribute, custom ones included
+  mfa: {
+    enabled: boolean;
+    preferred: string | null;
+    methods: string[];
+  };
+  supportRequests: Omit<SupportTicket, "note" | "requestId" | "userId">[]; // Internal fields are left out
+}
+
+/**
+ * An export waiting to be downloaded from an emailed link.
+ */
+interface StoredExport {
+  exportId: string;
+  tokenHash: string;
+  archive: string; // Serialized DataExport
+  expiresAt: number; // Epoch seconds, also the DynamoDB TTL attribute
+}
+
+// Without a table, exports are kept per process (local development)
+const memoryExports = new Map<string, StoredExport>();
+
+const saveExport = async (item: StoredExport) => {
+  if (!TABLE_NAME) {
+    // Drop expired exports, as the table's TTL would
+    const now = Math.floor(Date.now() / 1000);
+    memoryExports.forEach(({ expiresAt }, exportId) => {
+      if (expiresAt <= now) memoryExports.delete(exportId);
+    });
+    memoryExports.set(item.exportId, item);
+    return;
+  }
+  await dynamoDocClient.send(new PutCommand({ TableName: TABLE_NAME, Item: item }));
+};
+
+const loadExport = async (exportId: string): Promise<StoredExport | undefined> => {
+  if (!TABLE_NAME) return memoryExports.get(exportId);
+  const { Item } = await dynamoDocClient.send(new GetCommand({ TableName: TABLE_NAME, Key: { exportId } }));
+  return Item as StoredExport | undefined;
+};
+
+export const dataExportService = {
+  // assemble the archive for the user the access token belongs to
+  async buildExport(token: string): Promise<DataExport> {
+    const user = await userService.verifyUser(token);
+    // Anyone can submit a ticket under any email, so only those submitted while signed in to this account
+    const tickets = (await supportTicketService.listTicketsForEmail(user.email)).filter(
+      (ticket) => ticket.userId === user.userId
+    );
+
+    try {
+      const response = await cognitoClient.send(
+        new AdminGetUserCommand({ UserPoolId: USER_POOL_ID, Username: user.email })
+      );
+
+      const attributes: Record<string, string> = {};
+      for (const attr of response.UserAttributes || []) {
+        attributes[attr.Name] = attr.Value;
+      }
+
+      return {
+        exportedAt: new Date().toISOString(),
+        account: {
+          username: response.Username,
+          status: response.UserStatus,
+          enabled: response.Enabled,
+          createdAt: response.UserCreateDate?.toISOString() || null,
+          lastModifiedAt: response.UserLastModifiedDate?.toISOString() || null,
+        },
+        attributes,
+        mfa: user.mfa,
+        supportRequests: tickets.map(({ ticketId, email, message, status, createdAt, updatedAt }) => ({
+          ticketId,
+          email,
+          message,
+          status,
+          createdAt,
+          updatedAt,
+        })),
+      };
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+  },
+
+  // store the archive and email the user a time-limited download link
+  async emailDownloadLink(email: string, archive: DataExport, acceptLanguage?: string) {
+    const exportId = uuidv4();
+    const downloadToken = generateToken();
+    const expiresAt = Math.floor(Date.now() / 1000) + DATA_EXPORT_LINK_TTL_HOURS * 60 * 60;
+
+    const item: StoredExport = {
+      exportId,
+      tokenHash: hashToken(downloadToken),
+      archive: JSON.stringify(archive),
+      expiresAt,
+    };
+    await saveExport(item);
+
+    const downloadUrl = `${config.apiBaseUrl}${config.apiPrefix}/users/export/download?id=${exportId}&token=${downloadToken}`;
+    await sendTemplatedEmail({
+      to: email,
+      from: SUPPORT_EMAIL,
+      template: "dataExportReady",
+      locale: resolveLocale(archive.attributes.locale, acceptLanguage),
+      variables: { downloadUrl, expiresInHours: String(DATA_EXPORT_LINK_TTL_HOURS) },
+    });
+  },
+
+  // resolve an emailed download link to the stored archive
+  async getDownload(exportId: string, downloadToken: string): Promise<string> {
+    const stored = await loadExport(exportId);
+
+    // TTL deletion is lazy, so check the expiry ourselves
+    if (
+      !stored ||
+      stored.expiresAt <= Math.floor(Date.now() / 1000) ||
+      !matchesTokenHash(downloadToken, stored.tokenHash)
+    ) {
+      throw new AppError("Export not found or link expired.", 404, "EXPORT_NOT_FOUND");
+    }
+
+    return stored.archive;
+  },
+};
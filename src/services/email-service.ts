@@ -1,6 +1,7 @@
-import { SendEmailCommand, SendEmailCommandInput } from "@aws-sdk/client-ses";
-import sesClient from "../config/ses";
 import { EMAIL_REGEX } from "../config/constants";
+import { handleSesError } from "../utils/error-handler";
+import emailTransport from "./email";
+import { renderTemplate, TemplateName, TemplateVariables } from "./email/templates";
 
 interface EmailParams {
   to: string | string[];
@@ -11,6 +12,15 @@ interface EmailParams {
   replyTo?: string | string[];
 }
 
+interface TemplatedEmailParams {
+  to: string | string[];
+  from: string;
+  template: TemplateName;
+  locale: string;
+  variables?: TemplateVariables;
+  replyTo?: string | string[];
+}
+
 /**
  * Validates email address format
  * @param email Email address to validate
@@ -21,10 +31,10 @@ function isValidEmail(email: string): boolean {
 }
 
 /**
- * Sends an email using AWS SES
+ * Sends an email through the configured transport (AWS SES in production)
  * @param params Email parameters including recipient, sender, subject, and body
  * @returns Promise that resolves when the email is sent
- * @throws Error if email parameters are invalid or sending fails
+ * @throws Error if email parameters are invalid or sending fails (an AppError for SES errors)
  */
 export async function sendEmail(params: EmailParams): Promise<void> {
   const { to, from, subject, text, html, replyTo } = params;
@@ -65,38 +75,31 @@ export async function sendEmail(params: EmailParams): Promise<void> {
     }
   }
 
-  const input: SendEmailCommandInput = {
-    Destination: {
-      ToAddresses: toAddresses,
-    },
-    Message: {
-      Body: {
-        Text: {
-          Charset: "UTF-8",
-          Data: text,
-        },
-        ...(html && {
-          Html: {
-            Charset: "UTF-8",
-            Data: html,
-          },
-        }),
-      },
-      Subject: {
-        Charset: "UTF-8",
-        Data: subject,
-      },
-    },
-    Source: from,
-    ...(replyToAddresses && { ReplyToAddresses: replyToAddresses }),
-  };
-
-  const command = new SendEmailCommand(input);
-
   try {
-    await sesClient.send(command);
+    await emailTransport.send({
+      to: toAddresses,
+      from,
+      subject,
+      text,
+      html,
+      replyTo: replyToAddresses,
+    });
   } catch (error) {
-    console.error("Error sending email:", error);
-    throw new Error(`Failed to send email: ${error.message}`);
+    console.error(`Error sending email via ${emailTransport.name}:`, error);
+    // SES errors get their catalog status and code; other transports' errors stay internal
+    throw error?.$metadata ? handleSesError(error) : new Error(`Failed to send email: ${error.message}`);
   }
 }
+
+/**
+ * Renders a named template in the recipient's locale and sends it with both text and HTML parts
+ * @param params Recipient, sender, template name, locale, and template variables
+ * @returns Promise that resolves when the email is sent
+ * @throws Error if email parameters are invalid or sending fails
+ */
+export async function sendTemplatedEmail(params: TemplatedEmailParams): Promise<void> {
+  const { to, from, template, locale, variables, replyTo } = params;
+  const { subject, text, html } = renderTemplate(template, locale, variables);
+
+  await sendEmail({ to, from, subject, text, html, replyTo });
+}
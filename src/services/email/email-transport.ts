@@ -0,0 +1,22 @@
+/**
+ * A validated, normalized email ready to hand to a transport.
+ */
+export interface EmailMessage {
+  to: string[];
+  from: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string[];
+}
+
+/**
+ * Delivers email. `sendEmail` validates messages before they reach a transport,
+ * so implementations only deal with delivery.
+ */
+export interface EmailTransport {
+  // Short identifier, e.g. "ses", used in logs
+  readonly name: string;
+
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,26 @@
+import config from "../../config/config";
+import { EmailTransport } from "./email-transport";
+import { OutboxEmailTransport } from "./outbox-email-transport";
+import { SesEmailTransport } from "./ses-email-transport";
+import { SmtpEmailTransport } from "./smtp-email-transport";
+
+export * from "./email-transport";
+export { OutboxEmailTransport, OutboxEntry } from "./outbox-email-transport";
+
+// Selected once at startup by EMAIL_TRANSPORT ("ses" by default, "smtp", or "outbox" for local development)
+const createEmailTransport = (): EmailTransport => {
+  switch (config.email.transport) {
+    case "smtp":
+      return new SmtpEmailTransport(config.email.smtp);
+    case "outbox":
+      return new OutboxEmailTransport(config.email.outboxDir);
+    case "ses":
+      return new SesEmailTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${config.email.transport}`);
+  }
+};
+
+const emailTransport = createEmailTransport();
+
+export default emailTransport;
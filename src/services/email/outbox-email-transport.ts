@@ -0,0 +1,63 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { EmailMessage, EmailTransport } from "./email-transport";
+
+/**
+ * A message as stored in the outbox directory.
+ */
+export interface OutboxEntry extends EmailMessage {
+  id: string;
+  date: string; // ISO timestamp of when it was "sent"
+}
+
+// Outbox ids are generated UUIDs; anything else must not be turned into a file path
+const OUTBOX_ID_REGEX = /^[0-9a-f-]{36}$/;
+
+/**
+ * Development transport that writes each message to a JSON file instead of delivering it.
+ * Messages can be browsed through the dev outbox routes.
+ */
+export class OutboxEmailTransport implements EmailTransport {
+  readonly name = "outbox";
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage) {
+    const entry: OutboxEntry = { id: uuidv4(), date: new Date().toISOString(), ...message };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, `${entry.id}.json`), JSON.stringify(entry, null, 2));
+    console.info(`[email outbox] "${entry.subject}" to ${entry.to.join(", ")} saved as ${entry.id}`);
+  }
+
+  // newest first
+  async list(): Promise<OutboxEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if (error.code === "ENOENT") return []; // Nothing sent yet
+      throw error;
+    }
+
+    const entries: OutboxEntry[] = [];
+    for (const file of files) {
+      if (file.endsWith(".json")) {
+        entries.push(JSON.parse(await fs.readFile(path.join(this.directory, file), "utf8")));
+      }
+    }
+    return entries.sort((a, b) => (a.date < b.date ? 1 : -1));
+  }
+
+  async get(id: string): Promise<OutboxEntry | null> {
+    if (!OUTBOX_ID_REGEX.test(id)) return null;
+
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, `${id}.json`), "utf8"));
+    } catch (error) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { SendEmailCommand, SendEmailCommandInput } from "@aws-sdk/client-ses";
+import sesClient from "../../config/ses";
+import { EmailMessage, EmailTransport } from "./email-transport";
+
+/**
+ * Sends email through AWS SES, the production transport.
+ */
+export class SesEmailTransport implements EmailTransport {
+  readonly name = "ses";
+
+  async send({ to, from, subject, text, html, replyTo }: EmailMessage) {
+    const input: SendEmailCommandInput = {
+      Destination: {
+        ToAddresses: to,
+      },
+      Message: {
+        Body: {
+          Text: {
+            Charset: "UTF-8",
+            Data: text,
+          },
+          ...(html && {
+            Html: {
+              Charset: "UTF-8",
+              Data: html,
+            },
+          }),
+        },
+        Subject: {
+          Charset: "UTF-8",
+          Data: subject,
+        },
+      },
+      Source: from,
+      ...(replyTo && { ReplyToAddresses: replyTo }),
+    };
+
+    await sesClient.send(new SendEmailCommand(input));
+  }
+}
@@ -0,0 +1,35 @@
+import * as nodemailer from "nodemailer";
+import { EmailMessage, EmailTransport } from "./email-transport";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Sends email through any SMTP server (a mail provider, or Mailpit/MailHog locally).
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = "smtp";
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor({ host, port, secure, user, password }: SmtpOptions) {
+    if (!host) {
+      throw new Error("SMTP_HOST is required for the smtp email transport");
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      ...(user && { auth: { user, pass: password } }),
+    });
+  }
+
+  async send({ to, from, subject, text, html, replyTo }: EmailMessage) {
+    await this.transporter.sendMail({ to, from, subject, text, html, replyTo });
+  }
+}
@@ -0,0 +1,8 @@
+import en from "./en";
+import es from "./es";
+import { LocaleCatalog } from "./types";
+
+export const DEFAULT_LOCALE = "en";
+
+// Add a locale by creating its catalog next to en.ts and listing it here
+export const catalogs: Record<string, LocaleCatalog> = { en, es };
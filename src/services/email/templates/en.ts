@@ -0,0 +1,151 @@
+import { LocaleCatalog } from "./types";
+
+const en: LocaleCatalog = {
+  footer: "Questions? Contact us at {{supportEmail}}.",
+  templates: {
+    welcome: {
+      subject: "Welcome!",
+      text: [
+        "Hi {{firstName|there}},",
+        "",
+        "Your email address is confirmed and your account is ready. You can sign in now.",
+      ].join("\n"),
+      html: [
+        "<p>Hi {{firstName|there}},</p>",
+        "<p>Your email address is confirmed and your account is ready. You can sign in now.</p>",
+      ].join("\n"),
+    },
+    passwordChanged: {
+      subject: "Your password was changed",
+      text: [
+        "Hi {{firstName|there}},",
+        "",
+        "The password for your account was changed on {{changedAt}}.",
+        "{{#signedOut}}All other sessions have been signed out.\n{{/signedOut}}",
+        "If you did not make this change, reset your password immediately and contact us at {{supportEmail}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hi {{firstName|there}},</p>",
+        "<p>The password for your account was changed on {{changedAt}}.</p>",
+        "{{#signedOut}}<p>All other sessions have been signed out.</p>{{/signedOut}}",
+        "<p>If you did not make this change, reset your password immediately and contact us at {{supportEmail}}.</p>",
+      ].join("\n"),
+    },
+    securityAlert: {
+      subject: "Security alert for your account",
+      text: [
+        "Hi {{firstName|there}},",
+        "",
+        "{{#mfaEnabled}}Two-factor authentication was turned on for your account.{{/mfaEnabled}}" +
+          "{{#mfaDisabled}}Two-factor authentication was turned off for your account.{{/mfaDisabled}}" +
+          "{{#signedOutEverywhere}}Your account was signed out on all devices.{{/signedOutEverywhere}}",
+        "Time: {{occurredAt}}",
+        "",
+        "If this wasn't you, reset your password immediately and contact us at {{supportEmail}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hi {{firstName|there}},</p>",
+        "<p>{{#mfaEnabled}}Two-factor authentication was turned on for your account.{{/mfaEnabled}}" +
+          "{{#mfaDisabled}}Two-factor authentication was turned off for your account.{{/mfaDisabled}}" +
+          "{{#signedOutEverywhere}}Your account was signed out on all devices.{{/signedOutEverywhere}}</p>",
+        "<p>Time: {{occurredAt}}</p>",
+        "<p>If this wasn't you, reset your password immediately and contact us at {{supportEmail}}.</p>",
+      ].join("\n"),
+    },
+    accountLocked: {
+      subject: "Sign-in to your account is temporarily locked",
+      text: [
+        "Hi,",
+        "",
+        "There were too many failed attempts to sign in to your account.",
+        "We have locked sign-in until {{lockedUntil}}.",
+        "",
+        "If these attempts were yours, you can sign in again after that time or reset your password.",
+        "If they weren't, someone may be trying to guess your password.",
+        "We recommend choosing a new, unique password and turning on two-factor authentication.",
+        "Contact us at {{supportEmail}} if you need help.",
+      ].join("\n"),
+      html: [
+        "<p>Hi,</p>",
+        "<p>There were too many failed attempts to sign in to your account.</p>",
+        "<p>We have locked sign-in until {{lockedUntil}}.</p>",
+        "<p>If these attempts were yours, you can sign in again after that time or reset your password.</p>",
+        "<p>If they weren't, someone may be trying to guess your password.</p>",
+        "<p>We recommend choosing a new, unique password and turning on two-factor authentication.</p>",
+        "<p>Contact us at {{supportEmail}} if you need help.</p>",
+      ].join("\n"),
+    },
+    accountDeletionScheduled: {
+      subject: "Your account is scheduled for deletion",
+      text: [
+        "Hi {{firstName|there}},",
+        "",
+        "We received a request to delete your account. Your account has been disabled and will be permanently deleted on {{deletionDate}}.",
+        "",
+        "If you changed your mind, cancel the deletion before then by opening this link and confirming:",
+        "{{cancelUrl}}",
+        "",
+        "If you did not request this, cancel it using the link above and contact us at {{supportEmail}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hi {{firstName|there}},</p>",
+        "<p>We received a request to delete your account. Your account has been disabled and will be permanently deleted on {{deletionDate}}.</p>",
+        '<p>If you changed your mind, <a href="{{cancelUrl}}">cancel the deletion</a> before then by opening the link and confirming.</p>',
+        "<p>If you did not request this, cancel it using the link above and contact us at {{supportEmail}}.</p>",
+      ].join("\n"),
+    },
+    dataExportReady: {
+      subject: "Your data export is ready",
+      text: [
+        "Hi,",
+        "",
+        "The export of your account data you requested is ready. Download it here:",
+        "{{downloadUrl}}",
+        "",
+        "The link expires in {{expiresInHours}} hours.",
+        "If you did not request this export, contact us at {{supportEmail}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hi,</p>",
+        '<p>The export of your account data you requested is ready. <a href="{{downloadUrl}}">Download it here</a>.</p>',
+        "<p>The link expires in {{expiresInHours}} hours.</p>",
+        "<p>If you did not request this export, contact us at {{supportEmail}}.</p>",
+      ].join("\n"),
+    },
+    supportAcknowledgment: {
+      subject: "We received your support request",
+      text: [
+        "Hi,",
+        "",
+        "Thanks for reaching out. We received your message and will get back to you soon.",
+        "Your ticket number is {{ticketId}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hi,</p>",
+        "<p>Thanks for reaching out. We received your message and will get back to you soon.</p>",
+        "<p>Your ticket number is <strong>{{ticketId}}</strong>.</p>",
+      ].join("\n"),
+    },
+    // Sent to the support inbox, so only English is maintained
+    supportRequestNotification: {
+      subject: "New Support Request {{#email}}from {{email}}{{/email}}",
+      text: [
+        "Support Request Details:",
+        "-----------------------",
+        "Ticket: {{ticketId}}",
+        "From: {{email|Anonymous}}",
+        "Message: {{message}}",
+        "Date: {{submittedAt}}",
+      ].join("\n"),
+      html: [
+        "<h2>Support Request Details</h2>",
+        "<p><strong>Ticket:</strong> {{ticketId}}</p>",
+        "<p><strong>From:</strong> {{email|Anonymous}}</p>",
+        '<p><strong>Message:</strong></p><p style="white-space: pre-wrap;">{{message}}</p>',
+        "<p><strong>Date:</strong> {{submittedAt}}</p>",
+      ].join("\n"),
+    },
+  },
+};
+
+export default en;
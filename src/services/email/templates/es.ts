@@ -0,0 +1,134 @@
+import en from "./en";
+import { LocaleCatalog } from "./types";
+
+const es: LocaleCatalog = {
+  footer: "¿Preguntas? Escríbenos a {{supportEmail}}.",
+  templates: {
+    welcome: {
+      subject: "¡Bienvenido!",
+      text: [
+        "Hola{{#firstName}} {{firstName}}{{/firstName}},",
+        "",
+        "Tu correo electrónico está confirmado y tu cuenta está lista. Ya puedes iniciar sesión.",
+      ].join("\n"),
+      html: [
+        "<p>Hola{{#firstName}} {{firstName}}{{/firstName}},</p>",
+        "<p>Tu correo electrónico está confirmado y tu cuenta está lista. Ya puedes iniciar sesión.</p>",
+      ].join("\n"),
+    },
+    passwordChanged: {
+      subject: "Tu contraseña ha sido cambiada",
+      text: [
+        "Hola{{#firstName}} {{firstName}}{{/firstName}},",
+        "",
+        "La contraseña de tu cuenta fue cambiada el {{changedAt}}.",
+        "{{#signedOut}}Se han cerrado todas las demás sesiones.\n{{/signedOut}}",
+        "Si no realizaste este cambio, restablece tu contraseña de inmediato y escríbenos a {{supportEmail}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hola{{#firstName}} {{firstName}}{{/firstName}},</p>",
+        "<p>La contraseña de tu cuenta fue cambiada el {{changedAt}}.</p>",
+        "{{#signedOut}}<p>Se han cerrado todas las demás sesiones.</p>{{/signedOut}}",
+        "<p>Si no realizaste este cambio, restablece tu contraseña de inmediato y escríbenos a {{supportEmail}}.</p>",
+      ].join("\n"),
+    },
+    securityAlert: {
+      subject: "Alerta de seguridad de tu cuenta",
+      text: [
+        "Hola{{#firstName}} {{firstName}}{{/firstName}},",
+        "",
+        "{{#mfaEnabled}}Se activó la autenticación en dos pasos en tu cuenta.{{/mfaEnabled}}" +
+          "{{#mfaDisabled}}Se desactivó la autenticación en dos pasos en tu cuenta.{{/mfaDisabled}}" +
+          "{{#signedOutEverywhere}}Se cerró la sesión de tu cuenta en todos los dispositivos.{{/signedOutEverywhere}}",
+        "Fecha: {{occurredAt}}",
+        "",
+        "Si no fuiste tú, restablece tu contraseña de inmediato y escríbenos a {{supportEmail}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hola{{#firstName}} {{firstName}}{{/firstName}},</p>",
+        "<p>{{#mfaEnabled}}Se activó la autenticación en dos pasos en tu cuenta.{{/mfaEnabled}}" +
+          "{{#mfaDisabled}}Se desactivó la autenticación en dos pasos en tu cuenta.{{/mfaDisabled}}" +
+          "{{#signedOutEverywhere}}Se cerró la sesión de tu cuenta en todos los dispositivos.{{/signedOutEverywhere}}</p>",
+        "<p>Fecha: {{occurredAt}}</p>",
+        "<p>Si no fuiste tú, restablece tu contraseña de inmediato y escríbenos a {{supportEmail}}.</p>",
+      ].join("\n"),
+    },
+    accountLocked: {
+      subject: "El inicio de sesión en tu cuenta está bloqueado temporalmente",
+      text: [
+        "Hola,",
+        "",
+        "Hubo demasiados intentos fallidos de iniciar sesión en tu cuenta.",
+        "Bloqueamos el inicio de sesión hasta el {{lockedUntil}}.",
+        "",
+        "Si fuiste tú, podrás iniciar sesión de nuevo después de esa hora o restablecer tu contraseña.",
+        "Si no fuiste tú, alguien podría estar intentando adivinar tu contraseña.",
+        "Te recomendamos elegir una contraseña nueva y única y activar la autenticación en dos pasos.",
+        "Escríbenos a {{supportEmail}} si necesitas ayuda.",
+      ].join("\n"),
+      html: [
+        "<p>Hola,</p>",
+        "<p>Hubo demasiados intentos fallidos de iniciar sesión en tu cuenta.</p>",
+        "<p>Bloqueamos el inicio de sesión hasta el {{lockedUntil}}.</p>",
+        "<p>Si fuiste tú, podrás iniciar sesión de nuevo después de esa hora o restablecer tu contraseña.</p>",
+        "<p>Si no fuiste tú, alguien podría estar intentando adivinar tu contraseña.</p>",
+        "<p>Te recomendamos elegir una contraseña nueva y única y activar la autenticación en dos pasos.</p>",
+        "<p>Escríbenos a {{supportEmail}} si necesitas ayuda.</p>",
+      ].join("\n"),
+    },
+    accountDeletionScheduled: {
+      subject: "Tu cuenta se eliminará próximamente",
+      text: [
+        "Hola{{#firstName}} {{firstName}}{{/firstName}},",
+        "",
+        "Recibimos una solicitud para eliminar tu cuenta. Tu cuenta ha sido desactivada y se eliminará definitivamente el {{deletionDate}}.",
+        "",
+        "Si cambiaste de opinión, cancela la eliminación antes de esa fecha abriendo este enlace y confirmando:",
+        "{{cancelUrl}}",
+        "",
+        "Si no solicitaste esto, cancélalo con el enlace de arriba y escríbenos a {{supportEmail}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hola{{#firstName}} {{firstName}}{{/firstName}},</p>",
+        "<p>Recibimos una solicitud para eliminar tu cuenta. Tu cuenta ha sido desactivada y se eliminará definitivamente el {{deletionDate}}.</p>",
+        '<p>Si cambiaste de opinión, <a href="{{cancelUrl}}">cancela la eliminación</a> antes de esa fecha abriendo el enlace y confirmando.</p>',
+        "<p>Si no solicitaste esto, cancélalo con el enlace de arriba y escríbenos a {{supportEmail}}.</p>",
+      ].join("\n"),
+    },
+    dataExportReady: {
+      subject: "Tu exportación de datos está lista",
+      text: [
+        "Hola,",
+        "",
+        "La exportación de los datos de tu cuenta que solicitaste está lista. Descárgala aquí:",
+        "{{downloadUrl}}",
+        "",
+        "El enlace caduca en {{expiresInHours}} horas.",
+        "Si no solicitaste esta exportación, escríbenos a {{supportEmail}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hola,</p>",
+        '<p>La exportación de los datos de tu cuenta que solicitaste está lista. <a href="{{downloadUrl}}">Descárgala aquí</a>.</p>',
+        "<p>El enlace caduca en {{expiresInHours}} horas.</p>",
+        "<p>Si no solicitaste esta exportación, escríbenos a {{supportEmail}}.</p>",
+      ].join("\n"),
+    },
+    supportAcknowledgment: {
+      subject: "Recibimos tu solicitud de soporte",
+      text: [
+        "Hola,",
+        "",
+        "Gracias por escribirnos. Recibimos tu mensaje y te responderemos pronto.",
+        "Tu número de ticket es {{ticketId}}.",
+      ].join("\n"),
+      html: [
+        "<p>Hola,</p>",
+        "<p>Gracias por escribirnos. Recibimos tu mensaje y te responderemos pronto.</p>",
+        "<p>Tu número de ticket es <strong>{{ticketId}}</strong>.</p>",
+      ].join("\n"),
+    },
+    supportRequestNotification: en.templates.supportRequestNotification,
+  },
+};
+
+export default es;
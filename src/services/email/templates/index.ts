@@ -0,0 +1,3 @@
+export * from "./types";
+export { catalogs, DEFAULT_LOCALE } from "./catalogs";
+export { renderTemplate, resolveLocale, RenderedEmail, TemplateVariables } from "./render";
@@ -0,0 +1,16 @@
+// Shared HTML shell for every email; inline styles because many mail clients drop <style> blocks
+export const htmlLayout = (locale: string, subject: string, body: string, footer: string) => `<!DOCTYPE html>
+<html lang="${locale}">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${subject}</title>
+  </head>
+  <body style="margin: 0; padding: 24px; background: #f5f5f5; font-family: Arial, Helvetica, sans-serif;">
+    <div style="max-width: 560px; margin: 0 auto; padding: 24px; background: #ffffff; color: #222222; line-height: 1.5;">
+      ${body}
+      <hr style="border: none; border-top: 1px solid #e5e5e5; margin: 24px 0;" />
+      <p style="font-size: 12px; color: #777777;">${footer}</p>
+    </div>
+  </body>
+</html>`;
@@ -0,0 +1,77 @@
+import config from "../../../config/config";
+import { preferredLanguages, primaryLanguage } from "../../../utils/accept-language";
+import { escapeHtml } from "../../../utils/html-utils";
+import { catalogs, DEFAULT_LOCALE } from "./catalogs";
+import { htmlLayout } from "./layout";
+import { TemplateName } from "./types";
+
+export type TemplateVariables = Record<string, string | boolean | null | undefined>;
+
+export interface RenderedEmail {
+  locale: string; // The locale actually used, after falling back
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)(?:\|([^}]*))?\}\}/g;
+
+// Sections first, so variables inside a dropped section are never evaluated
+const interpolate = (template: string, variables: TemplateVariables, escape: (value: string) => string) =>
+  template
+    .replace(SECTION_PATTERN, (match, name: string, body: string) => (variables[name] ? body : ""))
+    .replace(VARIABLE_PATTERN, (match, name: string, fallback?: string) => {
+      const value = variables[name];
+      if (value === undefined || value === null || value === "" || value === false) return fallback || "";
+      return escape(String(value));
+    });
+
+const plain = (value: string) => value;
+
+// "es-MX" -> "es"; undefined when no catalog exists for the language
+const toSupportedLocale = (tag: string | null | undefined) => {
+  if (!tag) return undefined;
+  const language = primaryLanguage(tag);
+  return catalogs[language] ? language : undefined;
+};
+
+/**
+ * Pick the locale to email a user in: their `locale` attribute wins, then the request's
+ * Accept-Language header (highest q-value first), then the default locale.
+ */
+export function resolveLocale(userLocale?: string | null, acceptLanguage?: string): string {
+  const fromUser = toSupportedLocale(userLocale);
+  if (fromUser) return fromUser;
+
+  for (const tag of preferredLanguages(acceptLanguage)) {
+    const locale = toSupportedLocale(tag);
+    if (locale) return locale;
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Render a named template in the given locale (or the default locale when unsupported).
+ * `supportEmail` is always available to templates.
+ */
+export function renderTemplate(name: TemplateName, locale: string, variables: TemplateVariables = {}): RenderedEmail {
+  const resolvedLocale = catalogs[locale] ? locale : DEFAULT_LOCALE;
+  const catalog = catalogs[resolvedLocale];
+  const template = catalog.templates[name];
+  const values: TemplateVariables = { supportEmail: config.supportEmail, ...variables };
+
+  const subject = interpolate(template.subject, values, plain);
+  return {
+    locale: resolvedLocale,
+    subject,
+    text: interpolate(template.text, values, plain),
+    html: htmlLayout(
+      resolvedLocale,
+      escapeHtml(subject),
+      interpolate(template.html, values, escapeHtml),
+      interpolate(catalog.footer, values, escapeHtml)
+    ),
+  };
+}
@@ -0,0 +1,27 @@
+export const TEMPLATE_NAMES = [
+  "welcome",
+  "passwordChanged",
+  "securityAlert",
+  "accountLocked",
+  "accountDeletionScheduled",
+  "dataExportReady",
+  "supportAcknowledgment",
+  "supportRequestNotification",
+] as const;
+
+export type TemplateName = (typeof TEMPLATE_NAMES)[number];
+
+/**
+ * One email in one language. Parts may use `{{variable}}`, `{{variable|fallback}}` and
+ * `{{#flag}}...{{/flag}}` (rendered only when `flag` is set). Variables are HTML-escaped in `html`.
+ */
+export interface EmailTemplate {
+  subject: string;
+  text: string;
+  html: string; // Body only; wrapped in the shared layout when rendered
+}
+
+export interface LocaleCatalog {
+  footer: string; // Shown under every HTML email
+  templates: Record<TemplateName, EmailTemplate>;
+}
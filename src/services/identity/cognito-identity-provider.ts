@@ -0,0 +1,214 @@
+import {
+  AdminGetUserCommand,
+  AssociateSoftwareTokenCommand,
+  AttributeType,
+  AuthFlowType,
+  ChallengeNameType,
+  ChangePasswordCommand,
+  ConfirmForgotPasswordCommand,
+  ConfirmSignUpCommand,
+  ForgotPasswordCommand,
+  GetUserCommand,
+  GlobalSignOutCommand,
+  InitiateAuthCommand,
+  ResendConfirmationCodeCommand,
+  RespondToAuthChallengeCommand,
+  RevokeTokenCommand,
+  SetUserMFAPreferenceCommand,
+  SignUpCommand,
+  UpdateUserAttributesCommand,
+  VerifySoftwareTokenCommand,
+  VerifySoftwareTokenResponseType,
+} from "@aws-sdk/client-cognito-identity-provider";
+import axios from "axios";
+import cognitoClient from "../../config/cognito";
+import config from "../../config/config";
+import { REFRESH_TOKEN_AUTH } from "../../config/constants";
+import { calculateSecretHash } from "../../utils/crypto-utils";
+import { AuthResponse, IdentityProvider, IdentityUser, SigningKey } from "./identity-provider";
+
+/**
+ * AWS Cognito user pool client, the production identity provider.
+ */
+export class CognitoIdentityProvider implements IdentityProvider {
+  readonly issuer: string;
+  readonly clientId: string;
+  private readonly clientSecret: string;
+  private readonly userPoolId: string;
+
+  constructor() {
+    // Presence is validated with the rest of the configuration at startup
+    this.clientId = config.cognito.clientId;
+    this.clientSecret = config.cognito.clientSecret;
+    this.userPoolId = config.cognito.userPoolId;
+    this.issuer = `https://cognito-idp.${config.aws.region}.amazonaws.com/${this.userPoolId}`;
+  }
+
+  private secretHash(email: string) {
+    return calculateSecretHash(this.clientId, this.clientSecret, email);
+  }
+
+  async signUp(email: string, password: string, attributes: AttributeType[]) {
+    await cognitoClient.send(
+      new SignUpCommand({
+        ClientId: this.clientId,
+        Username: email,
+        Password: password,
+        UserAttributes: attributes,
+        SecretHash: this.secretHash(email),
+      })
+    );
+  }
+
+  async confirmSignUp(email: string, confirmationCode: string) {
+    await cognitoClient.send(
+      new ConfirmSignUpCommand({
+        Username: email,
+        ConfirmationCode: confirmationCode,
+        ClientId: this.clientId,
+        SecretHash: this.secretHash(email),
+      })
+    );
+  }
+
+  async resendConfirmationCode(email: string) {
+    await cognitoClient.send(
+      new ResendConfirmationCodeCommand({
+        ClientId: this.clientId,
+        Username: email,
+        SecretHash: this.secretHash(email),
+      })
+    );
+  }
+
+  async login(email: string, password: string): Promise<AuthResponse> {
+    return cognitoClient.send(
+      new InitiateAuthCommand({
+        ClientId: this.clientId,
+        AuthFlow: AuthFlowType.USER_PASSWORD_AUTH,
+        AuthParameters: { USERNAME: email, PASSWORD: password, SECRET_HASH: this.secretHash(email) },
+      })
+    );
+  }
+
+  async refresh(refreshToken: string, email: string) {
+    const response = await cognitoClient.send(
+      new InitiateAuthCommand({
+        AuthFlow: REFRESH_TOKEN_AUTH,
+        ClientId: this.clientId,
+        AuthParameters: {
+          REFRESH_TOKEN: refreshToken,
+          SECRET_HASH: this.secretHash(email),
+        },
+      })
+    );
+    return response.AuthenticationResult;
+  }
+
+  async forgotPassword(email: string) {
+    await cognitoClient.send(
+      new ForgotPasswordCommand({
+        ClientId: this.clientId,
+        SecretHash: this.secretHash(email),
+        Username: email,
+      })
+    );
+  }
+
+  async confirmForgotPassword(email: string, code: string, password: string) {
+    await cognitoClient.send(
+      new ConfirmForgotPasswordCommand({
+        ClientId: this.clientId,
+        Username: email,
+        ConfirmationCode: code,
+        Password: password,
+        SecretHash: this.secretHash(email),
+      })
+    );
+  }
+
+  async getUser(accessToken: string): Promise<IdentityUser> {
+    return cognitoClient.send(new GetUserCommand({ AccessToken: accessToken }));
+  }
+
+  async userExists(email: string) {
+    try {
+      await cognitoClient.send(new AdminGetUserCommand({ UserPoolId: this.userPoolId, Username: email }));
+      return true;
+    } catch (error) {
+      if (error.name === "UserNotFoundException") return false;
+      throw error;
+    }
+  }
+
+  async respondToAuthChallenge(
+    email: string,
+    challengeName: ChallengeNameType,
+    session: string,
+    responses: Record<string, string>
+  ): Promise<AuthResponse> {
+    return cognitoClient.send(
+      new RespondToAuthChallengeCommand({
+        ClientId: this.clientId,
+        ChallengeName: challengeName,
+        Session: session,
+        ChallengeResponses: { ...responses, USERNAME: email, SECRET_HASH: this.secretHash(email) },
+      })
+    );
+  }
+
+  async updateUserAttributes(accessToken: string, attributes: AttributeType[]) {
+    await cognitoClient.send(new UpdateUserAttributesCommand({ AccessToken: accessToken, UserAttributes: attributes }));
+  }
+
+  async changePassword(accessToken: string, previousPassword: string, proposedPassword: string) {
+    await cognitoClient.send(
+      new ChangePasswordCommand({
+        AccessToken: accessToken,
+        PreviousPassword: previousPassword,
+        ProposedPassword: proposedPassword,
+      })
+    );
+  }
+
+  async globalSignOut(accessToken: string) {
+    await cognitoClient.send(new GlobalSignOutCommand({ AccessToken: accessToken }));
+  }
+
+  async associateSoftwareToken(accessToken: string) {
+    const { SecretCode } = await cognitoClient.send(new AssociateSoftwareTokenCommand({ AccessToken: accessToken }));
+    return SecretCode;
+  }
+
+  async verifySoftwareToken(accessToken: string, code: string, friendlyDeviceName?: string) {
+    const { Status } = await cognitoClient.send(
+      new VerifySoftwareTokenCommand({
+        AccessToken: accessToken,
+        UserCode: code,
+        FriendlyDeviceName: friendlyDeviceName,
+      })
+    );
+    return Status === VerifySoftwareTokenResponseType.SUCCESS;
+  }
+
+  async setSoftwareTokenMfa(accessToken: string, enabled: boolean) {
+    await cognitoClient.send(
+      new SetUserMFAPreferenceCommand({
+        AccessToken: accessToken,
+        SoftwareTokenMfaSettings: { Enabled: enabled, PreferredMfa: enabled },
+      })
+    );
+  }
+
+  async revokeRefreshToken(refreshToken: string) {
+    await cognitoClient.send(
+      new RevokeTokenCommand({ Token: refreshToken, ClientId: this.clientId, ClientSecret: this.clientSecret })
+    );
+  }
+
+  // AWS Cognito publishes the user pool's public keys as a JSON Web Key Set (JWKS)
+  async getSigningKeys(): Promise<SigningKey[]> {
+    const response = await axios.get(`${this.issuer}/.well-known/jwks.json`);
+    return response.data.keys;
+  }
+}
@@ -0,0 +1,81 @@
+import { AttributeType, AuthenticationResultType, ChallengeNameType } from "@aws-sdk/client-cognito-identity-provider";
+
+/**
+ * Result of a password sign-in: tokens, or a challenge to answer first.
+ * Mirrors Cognito's InitiateAuth response so the services can treat every provider alike.
+ */
+export interface AuthResponse {
+  AuthenticationResult?: AuthenticationResultType;
+  ChallengeName?: ChallengeNameType;
+  Session?: string;
+  ChallengeParameters?: Record<string, string>;
+}
+
+/**
+ * A user as returned by `getUser`, in the shape of Cognito's GetUser response.
+ */
+export interface IdentityUser {
+  Username: string;
+  UserAttributes: AttributeType[];
+  UserMFASettingList?: string[];
+  PreferredMfaSetting?: string;
+}
+
+/**
+ * Public key used to verify the provider's access tokens, as published in a JWKS.
+ */
+export interface SigningKey {
+  kid: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+  n?: string;
+  e?: string;
+}
+
+/**
+ * Identity operations the user service depends on.
+ * Failures are thrown as errors whose `name`/`__type` is the matching Cognito exception
+ * (e.g. "UsernameExistsException"), so `handleCognitoError` maps every provider the same way.
+ */
+export interface IdentityProvider {
+  // Issuer (`iss` claim) of the provider's access tokens
+  readonly issuer: string;
+  // App client the tokens are issued to (`client_id` claim of access tokens, `aud` of ID tokens)
+  readonly clientId: string;
+
+  signUp(email: string, password: string, attributes: AttributeType[]): Promise<void>;
+  confirmSignUp(email: string, confirmationCode: string): Promise<void>;
+  resendConfirmationCode(email: string): Promise<void>;
+  login(email: string, password: string): Promise<AuthResponse>;
+  refresh(refreshToken: string, email: string): Promise<AuthenticationResultType>;
+  forgotPassword(email: string): Promise<void>;
+  confirmForgotPassword(email: string, code: string, password: string): Promise<void>;
+  getUser(accessToken: string): Promise<IdentityUser>;
+  // Whether an account exists, for server-side decisions only; never reveal the answer to the client
+  userExists(email: string): Promise<boolean>;
+
+  // Answer a challenge returned by `login`; `responses` holds the challenge's answers without username or secret hash
+  respondToAuthChallenge(
+    email: string,
+    challengeName: ChallengeNameType,
+    session: string,
+    responses: Record<string, string>
+  ): Promise<AuthResponse>;
+
+  // Operations authorized by the user's own access token
+  updateUserAttributes(accessToken: string, attributes: AttributeType[]): Promise<void>;
+  changePassword(accessToken: string, previousPassword: string, proposedPassword: string): Promise<void>;
+  globalSignOut(accessToken: string): Promise<void>;
+  // Starts TOTP enrollment and returns the base32 secret for the authenticator app
+  associateSoftwareToken(accessToken: string): Promise<string>;
+  // Whether the code matched the secret being enrolled
+  verifySoftwareToken(accessToken: string, code: string, friendlyDeviceName?: string): Promise<boolean>;
+  setSoftwareTokenMfa(accessToken: string, enabled: boolean): Promise<void>;
+
+  // Revoke one refresh token, and with it the access tokens it issued
+  revokeRefreshToken(refreshToken: string): Promise<void>;
+
+  // Keys that verify access tokens; fetched remotely for Cognito, generated locally in memory
+  getSigningKeys(): Promise<SigningKey[]>;
+}
@@ -0,0 +1,14 @@
+import config from "../../config/config";
+import { CognitoIdentityProvider } from "./cognito-identity-provider";
+import { IdentityProvider } from "./identity-provider";
+import { MemoryIdentityProvider } from "./memory-identity-provider";
+
+export * from "./identity-provider";
+
+// Selected once at startup by IDENTITY_PROVIDER ("cognito" by default, "memory" for local development and tests).
+// The configuration refuses the in-memory provider in production.
+
+const identityProvider: IdentityProvider =
+  config.identityProvider === "memory" ? new MemoryIdentityProvider() : new CognitoIdentityProvider();
+
+export default identityProvider;
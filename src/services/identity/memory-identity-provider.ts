@@ -0,0 +1,413 @@
+import { AttributeType, AuthenticationResultType, ChallengeNameType } from "@aws-sdk/client-cognito-identity-provider";
+import * as crypto from "crypto";
+import * as jwt from "jsonwebtoken";
+import { v4 as uuidv4 } from "uuid";
+import { generateToken } from "../../utils/crypto-utils";
+import { AuthResponse, IdentityProvider, IdentityUser, SigningKey } from "./identity-provider";
+
+const ISSUER = "http://localhost/memory-identity-provider";
+const CLIENT_ID = "memory-client";
+const KEY_ID = "memory-signing-key";
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60; // Cognito's default of one hour
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // Cognito's default of 30 days
+const CONFIRMATION_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+const RESET_CODE_TTL_MS = 60 * 60 * 1000;
+const CHALLENGE_SESSION_TTL_MS = 3 * 60 * 1000; // Cognito's default for authentication sessions
+const TOTP_STEP_SECONDS = 30;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Error shaped like an AWS SDK Cognito exception, so `handleCognitoError` maps it unchanged.
+ */
+class IdentityProviderError extends Error {
+  __type: string;
+
+  constructor(type: string, message: string) {
+    super(message);
+    this.name = type;
+    this.__type = type;
+  }
+}
+
+interface OneTimeCode {
+  code: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+interface MemoryUser {
+  sub: string;
+  password: string;
+  status: "UNCONFIRMED" | "CONFIRMED";
+  attributes: Record<string, string>;
+  confirmationCode?: OneTimeCode;
+  resetCode?: OneTimeCode;
+  totpSecret?: Buffer; // Verified authenticator secret
+  pendingTotpSecret?: Buffer; // Associated, but not yet verified with a code
+  mfaEnabled?: boolean;
+  signedOutAt?: number; // Epoch seconds of the last global sign-out; older access tokens are refused
+}
+
+interface RefreshSession {
+  username: string;
+  originJti: string; // Shared by every access token minted from this refresh token, as in Cognito
+  expiresAt: number; // Epoch seconds
+}
+
+interface ChallengeSession {
+  username: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+// Cognito's default password policy: 8+ characters with upper, lower, digit and symbol
+const meetsPasswordPolicy = (password: string) =>
+  password.length >= 8 &&
+  /[A-Z]/.test(password) &&
+  /[a-z]/.test(password) &&
+  /[0-9]/.test(password) &&
+  /[^A-Za-z0-9]/.test(password);
+
+const generateCode = () => ("00000" + crypto.randomInt(0, 1000000)).slice(-6);
+
+// RFC 4648 base32, the encoding authenticator apps expect for TOTP secrets
+const toBase32 = (bytes: Buffer) => {
+  let bits = "";
+  bytes.forEach((byte) => {
+    bits += ("0000000" + byte.toString(2)).slice(-8);
+  });
+  let encoded = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    encoded += BASE32_ALPHABET[parseInt((bits.slice(i, i + 5) + "0000").slice(0, 5), 2)];
+  }
+  return encoded;
+};
+
+// RFC 6238 code for one time step: six digits from an HMAC-SHA1 of the step number
+const totpCode = (secret: Buffer, step: number) => {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step % 0x100000000, 4);
+  const hmac = crypto.createHmac("sha1", secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return ("00000" + ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000)).slice(-6);
+};
+
+// Codes of the neighbouring time steps are accepted too, allowing for clock drift
+const matchesTotp = (secret: Buffer, code: string) => {
+  const step = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  return [step - 1, step, step + 1].some((candidate) => totpCode(secret, candidate) === code);
+};
+
+/**
+ * Identity provider that keeps users in process memory and signs tokens with a key generated at startup.
+ * For local development and tests only: state and tokens do not survive a restart, and codes that Cognito
+ * would email are written to the log instead.
+ */
+export class MemoryIdentityProvider implements IdentityProvider {
+  readonly issuer = ISSUER;
+  readonly clientId = CLIENT_ID;
+  private readonly users = new Map<string, MemoryUser>();
+  private readonly refreshSessions = new Map<string, RefreshSession>();
+  private readonly challengeSessions = new Map<string, ChallengeSession>();
+  private readonly revokedOriginJtis = new Set<string>();
+  private readonly privateKey: crypto.KeyObject;
+  private readonly publicKey: crypto.KeyObject;
+  private readonly signingKey: SigningKey;
+
+  constructor() {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+    const { kty, n, e } = publicKey.export({ format: "jwk" });
+    this.signingKey = { kid: KEY_ID, kty, n, e, alg: "RS256", use: "sig" };
+  }
+
+  private findUser(email: string) {
+    const user = this.users.get(email.toLowerCase());
+    if (!user) throw new IdentityProviderError("UserNotFoundException", "User does not exist.");
+    return user;
+  }
+
+  private checkCode(presented: string, expected: OneTimeCode | undefined) {
+    if (!expected || expected.code !== presented) {
+      throw new IdentityProviderError("CodeMismatchException", "Invalid verification code provided, please try again.");
+    }
+    if (expected.expiresAt < Date.now()) {
+      throw new IdentityProviderError("ExpiredCodeException", "Invalid code provided, please request a code again.");
+    }
+  }
+
+  private deliverCode(kind: string, email: string, code: string) {
+    console.info(`[memory identity provider] ${kind} code for ${email}: ${code}`);
+  }
+
+  private issueTokens(username: string, session: RefreshSession): AuthenticationResultType {
+    const user = this.findUser(username);
+    const accessToken = jwt.sign(
+      {
+        sub: user.sub,
+        token_use: "access",
+        scope: "aws.cognito.signin.user.admin",
+        client_id: CLIENT_ID,
+        origin_jti: session.originJti,
+        jti: uuidv4(),
+        username,
+      },
+      this.privateKey,
+      { algorithm: "RS256", keyid: KEY_ID, issuer: ISSUER, expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+    );
+    const idToken = jwt.sign({ ...user.attributes, token_use: "id", aud: CLIENT_ID }, this.privateKey, {
+      algorithm: "RS256",
+      keyid: KEY_ID,
+      issuer: ISSUER,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    });
+    return { AccessToken: accessToken, IdToken: idToken, ExpiresIn: ACCESS_TOKEN_TTL_SECONDS, TokenType: "Bearer" };
+  }
+
+  // Completes a sign-in with a new refresh token
+  private startSession(username: string): AuthResponse {
+    const refreshToken = generateToken(64);
+    const session: RefreshSession = {
+      username,
+      originJti: uuidv4(),
+      expiresAt: Math.floor(Date.now() / 1000) + REFRESH_TOKEN_TTL_SECONDS,
+    };
+    this.refreshSessions.set(refreshToken, session);
+
+    return { AuthenticationResult: { ...this.issueTokens(username, session), RefreshToken: refreshToken } };
+  }
+
+  // The user an access token was issued to, refusing tokens that are invalid, expired or revoked
+  private authorize(accessToken: string): { username: string; user: MemoryUser } {
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(accessToken, this.publicKey, { algorithms: ["RS256"], issuer: ISSUER }) as jwt.JwtPayload;
+    } catch (error) {
+      const message = error.name === "TokenExpiredError" ? "Access Token has expired" : "Invalid Access Token";
+      throw new IdentityProviderError("NotAuthorizedException", message);
+    }
+    if (claims.token_use !== "access") {
+      throw new IdentityProviderError("NotAuthorizedException", "Invalid Access Token");
+    }
+
+    const user = this.findUser(claims.username);
+    if (this.revokedOriginJtis.has(claims.origin_jti) || (user.signedOutAt && claims.iat < user.signedOutAt)) {
+      throw new IdentityProviderError("NotAuthorizedException", "Access Token has been revoked");
+    }
+    return { username: claims.username, user };
+  }
+
+  async signUp(email: string, password: string, attributes: AttributeType[]) {
+    const username = email.toLowerCase();
+    if (this.users.has(username)) {
+      throw new IdentityProviderError("UsernameExistsException", "An account with the given email already exists.");
+    }
+    if (!meetsPasswordPolicy(password)) {
+      throw new IdentityProviderError("InvalidPasswordException", "Password did not conform with policy.");
+    }
+
+    const sub = uuidv4();
+    const userAttributes: Record<string, string> = { sub, email, email_verified: "false" };
+    for (const attr of attributes) {
+      userAttributes[attr.Name] = attr.Value;
+    }
+
+    const code = generateCode();
+    this.users.set(username, {
+      sub,
+      password,
+      status: "UNCONFIRMED",
+      attributes: userAttributes,
+      confirmationCode: { code, expiresAt: Date.now() + CONFIRMATION_CODE_TTL_MS },
+    });
+    this.deliverCode("Confirmation", email, code);
+  }
+
+  async confirmSignUp(email: string, confirmationCode: string) {
+    const user = this.findUser(email);
+    if (user.status === "CONFIRMED") {
+      throw new IdentityProviderError(
+        "NotAuthorizedException",
+        "User cannot be confirmed. Current status is CONFIRMED"
+      );
+    }
+    this.checkCode(confirmationCode, user.confirmationCode);
+
+    user.status = "CONFIRMED";
+    user.attributes.email_verified = "true";
+    user.confirmationCode = undefined;
+  }
+
+  async resendConfirmationCode(email: string) {
+    const user = this.findUser(email);
+    if (user.status === "CONFIRMED") {
+      throw new IdentityProviderError("InvalidParameterException", "User is already confirmed.");
+    }
+
+    const code = generateCode();
+    user.confirmationCode = { code, expiresAt: Date.now() + CONFIRMATION_CODE_TTL_MS };
+    this.deliverCode("Confirmation", email, code);
+  }
+
+  async login(email: string, password: string): Promise<AuthResponse> {
+    const username = email.toLowerCase();
+    const user = this.users.get(username);
+    // Like a pool with user existence errors prevented, unknown users and bad passwords look the same
+    if (!user || user.password !== password) {
+      throw new IdentityProviderError("NotAuthorizedException", "Incorrect username or password.");
+    }
+    if (user.status !== "CONFIRMED") {
+      throw new IdentityProviderError("UserNotConfirmedException", "User is not confirmed.");
+    }
+
+    if (user.mfaEnabled) {
+      const session = generateToken(64);
+      this.challengeSessions.set(session, { username, expiresAt: Date.now() + CHALLENGE_SESSION_TTL_MS });
+      return { ChallengeName: ChallengeNameType.SOFTWARE_TOKEN_MFA, Session: session, ChallengeParameters: {} };
+    }
+    return this.startSession(username);
+  }
+
+  // Only the TOTP challenge is ever issued by this provider
+  async respondToAuthChallenge(
+    email: string,
+    challengeName: ChallengeNameType,
+    session: string,
+    responses: Record<string, string>
+  ): Promise<AuthResponse> {
+    const pending = this.challengeSessions.get(session);
+    if (
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.username !== email.toLowerCase() ||
+      challengeName !== ChallengeNameType.SOFTWARE_TOKEN_MFA
+    ) {
+      throw new IdentityProviderError("NotAuthorizedException", "Invalid session for the user, session is expired.");
+    }
+
+    const user = this.findUser(pending.username);
+    if (!user.totpSecret || !matchesTotp(user.totpSecret, responses.SOFTWARE_TOKEN_MFA_CODE || "")) {
+      throw new IdentityProviderError("CodeMismatchException", "Invalid code received for user");
+    }
+
+    this.challengeSessions.delete(session);
+    return this.startSession(pending.username);
+  }
+
+  async refresh(refreshToken: string, email: string) {
+    const session = this.refreshSessions.get(refreshToken);
+    if (!session || session.expiresAt < Math.floor(Date.now() / 1000) || session.username !== email.toLowerCase()) {
+      throw new IdentityProviderError("NotAuthorizedException", "Invalid Refresh Token");
+    }
+    // Cognito does not rotate refresh tokens by default, so only new access and ID tokens are returned
+    return this.issueTokens(session.username, session);
+  }
+
+  async forgotPassword(email: string) {
+    const user = this.findUser(email);
+    const code = generateCode();
+    user.resetCode = { code, expiresAt: Date.now() + RESET_CODE_TTL_MS };
+    this.deliverCode("Password reset", email, code);
+  }
+
+  async confirmForgotPassword(email: string, code: string, password: string) {
+    const user = this.findUser(email);
+    this.checkCode(code, user.resetCode);
+    if (!meetsPasswordPolicy(password)) {
+      throw new IdentityProviderError("InvalidPasswordException", "Password did not conform with policy.");
+    }
+
+    user.password = password;
+    user.resetCode = undefined;
+  }
+
+  async getUser(accessToken: string): Promise<IdentityUser> {
+    const { username, user } = this.authorize(accessToken);
+    const userAttributes: AttributeType[] = [];
+    for (const name of Object.keys(user.attributes)) {
+      userAttributes.push({ Name: name, Value: user.attributes[name] });
+    }
+    return {
+      Username: username,
+      UserAttributes: userAttributes,
+      UserMFASettingList: user.mfaEnabled ? [ChallengeNameType.SOFTWARE_TOKEN_MFA] : [],
+      PreferredMfaSetting: user.mfaEnabled ? ChallengeNameType.SOFTWARE_TOKEN_MFA : undefined,
+    };
+  }
+
+  async userExists(email: string) {
+    return this.users.has(email.toLowerCase());
+  }
+
+  async updateUserAttributes(accessToken: string, attributes: AttributeType[]) {
+    const { user } = this.authorize(accessToken);
+    for (const attr of attributes) {
+      user.attributes[attr.Name] = attr.Value;
+    }
+  }
+
+  async changePassword(accessToken: string, previousPassword: string, proposedPassword: string) {
+    const { user } = this.authorize(accessToken);
+    if (user.password !== previousPassword) {
+      throw new IdentityProviderError("NotAuthorizedException", "Incorrect username or password.");
+    }
+    if (!meetsPasswordPolicy(proposedPassword)) {
+      throw new IdentityProviderError("InvalidPasswordException", "Password did not conform with policy.");
+    }
+
+    user.password = proposedPassword;
+  }
+
+  // Like Cognito, ends every refresh token and access token issued before now
+  async globalSignOut(accessToken: string) {
+    const { username, user } = this.authorize(accessToken);
+    this.refreshSessions.forEach((session, refreshToken) => {
+      if (session.username === username) this.refreshSessions.delete(refreshToken);
+    });
+    user.signedOutAt = Math.floor(Date.now() / 1000);
+  }
+
+  async associateSoftwareToken(accessToken: string) {
+    const { user } = this.authorize(accessToken);
+    user.pendingTotpSecret = crypto.randomBytes(20);
+    return toBase32(user.pendingTotpSecret);
+  }
+
+  async verifySoftwareToken(accessToken: string, code: string) {
+    const { user } = this.authorize(accessToken);
+    if (!user.pendingTotpSecret) {
+      throw new IdentityProviderError(
+        "SoftwareTokenMFANotFoundException",
+        "Software Token MFA has not been associated."
+      );
+    }
+    if (!matchesTotp(user.pendingTotpSecret, code)) {
+      throw new IdentityProviderError("EnableSoftwareTokenMFAException", "Code mismatch");
+    }
+
+    user.totpSecret = user.pendingTotpSecret;
+    user.pendingTotpSecret = undefined;
+    return true;
+  }
+
+  async setSoftwareTokenMfa(accessToken: string, enabled: boolean) {
+    const { user } = this.authorize(accessToken);
+    if (enabled && !user.totpSecret) {
+      throw new IdentityProviderError("InvalidParameterException", "User has not verified software token mfa");
+    }
+    user.mfaEnabled = enabled;
+  }
+
+  // Revoking an unknown or already revoked refresh token is not an error
+  async revokeRefreshToken(refreshToken: string) {
+    const session = this.refreshSessions.get(refreshToken);
+    if (!session) return;
+    this.refreshSessions.delete(refreshToken);
+    this.revokedOriginJtis.add(session.originJti);
+  }
+
+  async getSigningKeys(): Promise<SigningKey[]> {
+    return [this.signingKey];
+  }
+}
@@ -0,0 +1,118 @@
+import { promises as fs } from "fs";
+import config from "../config/config";
+import { AppError } from "../utils/error-handler";
+import identityProvider, { SigningKey } from "./identity";
+const jwkToPem = require("jwk-to-pem"); // Converts a JWK to PEM format for JWT verification
+
+/**
+ * Snapshot of the key store for health checks.
+ */
+export interface KeyStoreStats {
+  source: "identity-provider" | "file";
+  kids: string[];
+  lastRefreshAt: string | null; // Last successful load
+  lastRefreshError: string | null; // Set while the most recent attempt failed
+  stale: boolean; // Keys are older than the TTL (a refresh is failing or due)
+  hits: number;
+  misses: number; // Lookups for an unknown kid
+  refreshes: number;
+  refreshFailures: number;
+}
+
+const TTL_MS = config.jwks.ttlSeconds * 1000;
+const COOLDOWN_MS = config.jwks.refreshCooldownSeconds * 1000;
+const KEY_FILE = config.jwks.file;
+
+// PEMs are converted once per key when the set is loaded, not per request
+let pems = new Map<string, string>(); // kid -> PEM
+let lastRefreshAt = 0; // Epoch milliseconds of the last successful load
+let lastAttemptAt = 0; // Epoch milliseconds of the last load attempt, successful or not
+let lastRefreshError: string | null = null;
+let inFlight: Promise<void> | null = null; // Concurrent callers share one refresh
+const counters = { hits: 0, misses: 0, refreshes: 0, refreshFailures: 0 };
+
+// Read a JWKS document ({ "keys": [...] }) or a bare key array from disk, for offline development
+const loadKeysFromFile = async (path: string): Promise<SigningKey[]> => {
+  const document = JSON.parse(await fs.readFile(path, "utf8"));
+  return Array.isArray(document) ? document : document.keys;
+};
+
+const loadKeys = async () => {
+  const keys = KEY_FILE ? await loadKeysFromFile(KEY_FILE) : await identityProvider.getSigningKeys();
+
+  const converted = new Map<string, string>();
+  for (const key of keys || []) {
+    try {
+      converted.set(key.kid, jwkToPem(key));
+    } catch (error) {
+      console.error(`Skipping signing key ${key.kid} that cannot be converted to PEM:`, error);
+    }
+  }
+  if (converted.size === 0) throw new Error("Key set contains no usable keys");
+
+  pems = converted;
+  lastRefreshAt = Date.now();
+  lastRefreshError = null;
+  counters.refreshes++;
+};
+
+// Refresh once at a time; on failure the previous keys stay in place (served stale)
+const refresh = () => {
+  if (!inFlight) {
+    lastAttemptAt = Date.now();
+    inFlight = loadKeys()
+      .catch((error) => {
+        counters.refreshFailures++;
+        lastRefreshError = error.message;
+        console.error("Error fetching signing keys:", error);
+      })
+      .then(() => {
+        inFlight = null;
+      });
+  }
+  return inFlight;
+};
+
+const cooldownElapsed = () => Date.now() - lastAttemptAt >= COOLDOWN_MS;
+
+export const jwksKeyStore = {
+  // PEM for a token's `kid`, or undefined if no such key exists; refetches when the keys are stale
+  // or the kid is unknown (rotation)
+  async getPem(kid: string): Promise<string | undefined> {
+    const stale = Date.now() - lastRefreshAt > TTL_MS;
+
+    // Unknown kid: the provider may have rotated keys. The cooldown stops tokens with made-up
+    // kids from triggering a fetch on every request.
+    if ((stale || !pems.has(kid)) && cooldownElapsed()) {
+      await refresh();
+    }
+
+    const pem = pems.get(kid);
+    if (!pem) {
+      counters.misses++;
+      if (pems.size === 0) {
+        throw new AppError("Token signing keys are unavailable", 503, "SIGNING_KEYS_UNAVAILABLE");
+      }
+      return undefined;
+    }
+
+    counters.hits++;
+    return pem;
+  },
+
+  // load keys ahead of the first request (Lambda cold start, server start); failures are only logged
+  async warm() {
+    await refresh();
+  },
+
+  stats(): KeyStoreStats {
+    return {
+      source: KEY_FILE ? "file" : "identity-provider",
+      kids: Array.from(pems.keys()),
+      lastRefreshAt: lastRefreshAt ? new Date(lastRefreshAt).toISOString() : null,
+      lastRefreshError,
+      stale: Date.now() - lastRefreshAt > TTL_MS,
+      ...counters,
+    };
+  },
+};
@@ -0,0 +1,259 @@
+import { DeleteCommand, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import dynamoDocClient from "../config/dynamodb";
+import config from "../config/config";
+import { sendTemplatedEmail } from "./email-service";
+import { resolveLocale } from "./email/templates";
+import identityProvider from "./identity";
+import { hashToken } from "../utils/crypto-utils";
+import { RetryLaterError } from "../utils/error-handler";
+import { logAudit } from "../utils/logger";
+
+//  **Login Guard Policies**
+// - Failures are counted over a sliding window: only those in the last `windowSeconds` count.
+// - From `delayAfter` failures on, every attempt waits before it is checked, doubling per failure up to MAX_DELAY_MS.
+// - At `lockAfter` failures sign-in is refused for `lockSeconds`, doubling with each further lockout (up to
+//   `maxLockSeconds`) until a successful sign-in or a day without failures.
+// - `email` stops guessing one account's password; `ip` stops one address trying many accounts.
+interface GuardPolicy {
+  windowSeconds: number;
+  delayAfter: number;
+  lockAfter: number;
+  lockSeconds: number;
+  maxLockSeconds: number;
+}
+
+const GUARD_POLICIES: Record<"email" | "ip", GuardPolicy> = {
+  email: { windowSeconds: 15 * 60, delayAfter: 2, lockAfter: 5, lockSeconds: 15 * 60, maxLockSeconds: 24 * 60 * 60 },
+  ip: { windowSeconds: 15 * 60, delayAfter: 10, lockAfter: 20, lockSeconds: 15 * 60, maxLockSeconds: 60 * 60 },
+};
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+const STATE_TTL_SECONDS = 24 * 60 * 60; // Forget a subject a day after its last failure or lockout
+const MAX_UPDATE_ATTEMPTS = 3; // Concurrent failures for one subject retry their conditional write
+
+const TABLE_NAME = config.loginGuard.tableName;
+
+// Error codes that mean the submitted credentials (password or MFA code) were wrong
+const CREDENTIAL_FAILURES = ["NotAuthorizedException", "UserNotFoundException", "CodeMismatchException"];
+
+/**
+ * Failed sign-ins of one subject, keyed by "email:<sha256 of the address>" or "ip:<address>".
+ */
+interface GuardState {
+  subject: string;
+  failures: number[]; // Epoch seconds of the failures inside the window, oldest first
+  lockedUntil?: number; // Epoch seconds
+  lockouts: number; // Lockouts so far, which lengthen the next one
+  expiresAt: number; // Epoch seconds; DynamoDB TTL
+  version: number; // Optimistic locking for concurrent updates
+}
+
+// The client a sign-in attempt came from
+export interface LoginAttempt {
+  ip: string;
+  acceptLanguage?: string;
+}
+
+// Without a table, state is per process (per Lambda container)
+const states = new Map<string, GuardState>();
+
+const emailSubject = (email: string) => `email:${hashToken(email.trim().toLowerCase())}`;
+const ipSubject = (ip: string) => `ip:${ip}`;
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const recentFailures = (state: GuardState | undefined, policy: GuardPolicy, now: number) =>
+  state ? state.failures.filter((failedAt) => failedAt > now - policy.windowSeconds) : [];
+
+const loadState = async (subject: string): Promise<GuardState | undefined> => {
+  if (!TABLE_NAME) {
+    const state = states.get(subject);
+    return state && state.expiresAt > nowSeconds() ? state : undefined;
+  }
+  const { Item } = await dynamoDocClient.send(new GetCommand({ TableName: TABLE_NAME, Key: { subject } }));
+  // TTL deletion is lazy, so check the expiry ourselves
+  return Item && Item.expiresAt > nowSeconds() ? (Item as GuardState) : undefined;
+};
+
+// Writes the state unless another request changed it since it was loaded; returns false on a conflict
+const saveState = async (state: GuardState, loadedVersion?: number): Promise<boolean> => {
+  if (!TABLE_NAME) {
+    states.set(state.subject, state);
+    return true;
+  }
+  try {
+    await dynamoDocClient.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: state,
+        ConditionExpression: loadedVersion === undefined ? "attribute_not_exists(subject)" : "version = :version",
+        ExpressionAttributeValues: loadedVersion === undefined ? undefined : { ":version": loadedVersion },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (error.name === "ConditionalCheckFailedException") return false;
+    throw error;
+  }
+};
+
+const deleteState = async (subject: string) => {
+  if (!TABLE_NAME) {
+    states.delete(subject);
+    return;
+  }
+  await dynamoDocClient.send(new DeleteCommand({ TableName: TABLE_NAME, Key: { subject } }));
+};
+
+// Adds a failure to the subject's window, locking it at the policy's threshold; returns the new state
+const addFailure = async (subject: string, policy: GuardPolicy): Promise<GuardState> => {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const now = nowSeconds();
+    const loaded = await loadState(subject);
+    const state: GuardState = {
+      subject,
+      failures: [...recentFailures(loaded, policy, now), now],
+      lockedUntil: loaded?.lockedUntil,
+      lockouts: loaded?.lockouts || 0,
+      expiresAt: now + STATE_TTL_SECONDS,
+      version: (loaded?.version || 0) + 1,
+    };
+
+    if (state.failures.length >= policy.lockAfter) {
+      const lockSeconds = Math.min(policy.lockSeconds * Math.pow(2, state.lockouts), policy.maxLockSeconds);
+      state.lockedUntil = now + lockSeconds;
+      state.lockouts += 1;
+      state.failures = [];
+      state.expiresAt = state.lockedUntil + STATE_TTL_SECONDS;
+    }
+
+    if (await saveState(state, loaded?.version)) return state;
+  }
+  throw new Error(`Failed to record sign-in failure for ${subject}: too many concurrent updates`);
+};
+
+const delayFor = (failures: number, policy: GuardPolicy) =>
+  failures < policy.delayAfter ? 0 : Math.min(BASE_DELAY_MS * Math.pow(2, failures - policy.delayAfter), MAX_DELAY_MS);
+
+// The owner may not have caused the lockout, so tell them; best-effort, the lockout stands either way.
+// Failures against unknown addresses lock them too (so lockouts do not reveal which accounts exist), but
+// nobody is mailed about those: the address may belong to someone who never signed up.
+const sendLockoutNotice = async (email: string, lockedUntil: number, acceptLanguage?: string) => {
+  try {
+    if (!(await identityProvider.userExists(email))) return;
+    await sendTemplatedEmail({
+      to: email,
+      from: config.supportEmail,
+      template: "accountLocked",
+      locale: resolveLocale(null, acceptLanguage),
+      variables: { lockedUntil: new Date(lockedUntil * 1000).toISOString() },
+    });
+  } catch (error) {
+    console.error("Failed to send account lockout notice:", error);
+  }
+};
+
+// The guard failing (e.g. the table is unreachable) is logged and lets sign-in proceed: it must not take
+// authentication down with it. Cognito's own throttling still applies.
+export const loginGuardService = {
+  // whether a failed sign-in should count against the account and address
+  isCredentialFailure(error: any) {
+    const errorType = error?.errorCode || error?.__type || error?.name;
+    return CREDENTIAL_FAILURES.indexOf(errorType) !== -1;
+  },
+
+  // refuse a locked account or address, otherwise wait out the progressive delay before the attempt is checked
+  async check(email: string, attempt: LoginAttempt) {
+    let emailState: GuardState | undefined;
+    let ipState: GuardState | undefined;
+    try {
+      [emailState, ipState] = await Promise.all([loadState(emailSubject(email)), loadState(ipSubject(attempt.ip))]);
+    } catch (error) {
+      console.error("Failed to read login guard state:", error);
+      return;
+    }
+
+    const now = nowSeconds();
+    if (emailState?.lockedUntil > now) {
+      throw new RetryLaterError(
+        "This account is temporarily locked after too many failed sign-in attempts. Please try again later.",
+        423,
+        "ACCOUNT_LOCKED",
+        emailState.lockedUntil - now
+      );
+    }
+    if (ipState?.lockedUntil > now) {
+      throw new RetryLaterError(
+        "Too many failed sign-in attempts from this address. Please try again later.",
+        429,
+        "LOGIN_TEMPORARILY_BLOCKED",
+        ipState.lockedUntil - now
+      );
+    }
+
+    const delayMs = Math.max(
+      delayFor(recentFailures(emailState, GUARD_POLICIES.email, now).length, GUARD_POLICIES.email),
+      delayFor(recentFailures(ipState, GUARD_POLICIES.ip, now).length, GUARD_POLICIES.ip)
+    );
+    if (delayMs > 0) await sleep(delayMs);
+  },
+
+  // count a failed sign-in; the attempt that triggers a lockout still gets its original error
+  async recordFailure(email: string, attempt: LoginAttempt) {
+    try {
+      const [emailState, ipState] = await Promise.all([
+        addFailure(emailSubject(email), GUARD_POLICIES.email),
+        addFailure(ipSubject(attempt.ip), GUARD_POLICIES.ip),
+      ]);
+
+      if (emailState.failures.length === 0 && emailState.lockedUntil) {
+        logAudit("login_lockout", {
+          subject: "email",
+          emailHash: hashToken(email.trim().toLowerCase()),
+          ip: attempt.ip,
+          lockouts: emailState.lockouts,
+          lockedUntil: new Date(emailState.lockedUntil * 1000).toISOString(),
+        });
+        await sendLockoutNotice(email, emailState.lockedUntil, attempt.acceptLanguage);
+      }
+      if (ipState.failures.length === 0 && ipState.lockedUntil) {
+        logAudit("login_lockout", {
+          subject: "ip",
+          ip: attempt.ip,
+          lockouts: ipState.lockouts,
+          lockedUntil: new Date(ipState.lockedUntil * 1000).toISOString(),
+        });
+      }
+    } catch (error) {
+      console.error("Failed to record sign-in failure:", error);
+    }
+  },
+
+  // a successful sign-in clears the account's failures and lockout history; the address keeps its count
+  async recordSuccess(email: string) {
+    try {
+      await deleteState(emailSubject(email));
+    } catch (error) {
+      console.error("Failed to reset login guard state:", error);
+    }
+  },
+
+  // lock state of an account, for support staff
+  async getAccountStatus(email: string) {
+    const now = nowSeconds();
+    const state = await loadState(emailSubject(email));
+    const locked = state?.lockedUntil > now;
+    return {
+      locked,
+      lockedUntil: locked ? new Date(state.lockedUntil * 1000).toISOString() : null,
+      recentFailures: recentFailures(state, GUARD_POLICIES.email, now).length,
+      lockouts: state?.lockouts || 0,
+    };
+  },
+
+  // lift an account's lockout and forget its failures
+  async clearAccount(email: string) {
+    await deleteState(emailSubject(email));
+  },
+};
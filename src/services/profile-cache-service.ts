@@ -0,0 +1,94 @@
+import { DeleteCommand, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import dynamoDocClient from "../config/dynamodb";
+import config from "../config/config";
+
+/**
+ * The profile `/me` returns, as built by `userService.verifyUser`.
+ */
+export interface UserProfile {
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  userId: string | null;
+  locale: string | null;
+  mfa: {
+    enabled: boolean;
+    preferred: string | null;
+    methods: string[];
+  };
+}
+
+interface CachedProfile {
+  profile: UserProfile;
+  expiresAt: number; // Epoch milliseconds
+}
+
+const TTL_MS = config.profileCache.ttlSeconds * 1000;
+const TABLE_NAME = config.profileCache.tableName;
+const MAX_ENTRIES = 10000; // Bound memory in long-lived processes; the oldest entry is evicted first
+
+// Per process (per Lambda container). Invalidation only reaches this process and the shared table,
+// so other instances may serve a stale profile for up to the TTL; keep it short.
+const profiles = new Map<string, CachedProfile>(); // userId -> cached profile
+
+const remember = (userId: string, entry: CachedProfile) => {
+  profiles.delete(userId); // Re-insert so Map order tracks recency
+  if (profiles.size >= MAX_ENTRIES) profiles.delete(profiles.keys().next().value);
+  profiles.set(userId, entry);
+};
+
+// The shared table is an optimization: failures are logged and treated as cache misses
+export const profileCacheService = {
+  async get(userId: string): Promise<UserProfile | null> {
+    if (TTL_MS <= 0) return null;
+
+    const now = Date.now();
+    const cached = profiles.get(userId);
+    if (cached && cached.expiresAt > now) return cached.profile;
+    profiles.delete(userId);
+
+    if (!TABLE_NAME) return null;
+    try {
+      const { Item } = await dynamoDocClient.send(new GetCommand({ TableName: TABLE_NAME, Key: { userId } }));
+      // TTL deletion is lazy, so check the expiry ourselves
+      if (!Item || Item.expiresAt * 1000 <= now) return null;
+      const profile: UserProfile = JSON.parse(Item.profile);
+      remember(userId, { profile, expiresAt: Item.expiresAt * 1000 });
+      return profile;
+    } catch (error) {
+      console.error("Failed to read profile cache:", error);
+      return null;
+    }
+  },
+
+  async set(userId: string, profile: UserProfile) {
+    if (TTL_MS <= 0) return;
+
+    const expiresAt = Date.now() + TTL_MS;
+    remember(userId, { profile, expiresAt });
+
+    if (!TABLE_NAME) return;
+    try {
+      await dynamoDocClient.send(
+        new PutCommand({
+          TableName: TABLE_NAME,
+          Item: { userId, profile: JSON.stringify(profile), expiresAt: Math.ceil(expiresAt / 1000) },
+        })
+      );
+    } catch (error) {
+      console.error("Failed to write profile cache:", error);
+    }
+  },
+
+  // call whenever the user's attributes or MFA settings change
+  async invalidate(userId: string) {
+    profiles.delete(userId);
+
+    if (!TABLE_NAME) return;
+    try {
+      await dynamoDocClient.send(new DeleteCommand({ TableName: TABLE_NAME, Key: { userId } }));
+    } catch (error) {
+      console.error("Failed to invalidate profile cache:", error);
+    }
+  },
+};
@@ -0,0 +1,26 @@
+import { UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import dynamoDocClient from "../../config/dynamodb";
+import { RateLimitStore } from "./rate-limit-store";
+
+/**
+ * Counters in a DynamoDB table (partition key `key`, TTL attribute `expiresAt`) shared by every instance.
+ * Each hit is one atomic update, so concurrent containers never lose counts.
+ */
+export class DynamoDbRateLimitStore implements RateLimitStore {
+  readonly name = "dynamodb";
+
+  constructor(private readonly tableName: string) {}
+
+  async increment(key: string, expiresAt: number) {
+    const { Attributes } = await dynamoDocClient.send(
+      new UpdateCommand({
+        TableName: this.tableName,
+        Key: { key },
+        UpdateExpression: "ADD hits :one SET expiresAt = if_not_exists(expiresAt, :expiresAt)",
+        ExpressionAttributeValues: { ":one": 1, ":expiresAt": expiresAt },
+        ReturnValues: "UPDATED_NEW",
+      })
+    );
+    return Attributes.hits as number;
+  }
+}
@@ -0,0 +1,14 @@
+import config from "../../config/config";
+import { DynamoDbRateLimitStore } from "./dynamodb-rate-limit-store";
+import { MemoryRateLimitStore } from "./memory-rate-limit-store";
+import { RateLimitStore } from "./rate-limit-store";
+
+export * from "./rate-limit-store";
+
+// Selected once at startup by RATE_LIMIT_STORE ("dynamodb" in production, "memory" otherwise)
+const rateLimitStore: RateLimitStore =
+  config.rateLimit.store === "dynamodb"
+    ? new DynamoDbRateLimitStore(config.rateLimit.tableName)
+    : new MemoryRateLimitStore();
+
+export default rateLimitStore;
@@ -0,0 +1,37 @@
+import { RateLimitStore } from "./rate-limit-store";
+
+const MAX_KEYS = 10000; // Bound memory in long-lived processes; expired counters are swept first
+
+interface Counter {
+  hits: number;
+  expiresAt: number; // Epoch seconds
+}
+
+/**
+ * Counters in process memory. Each process (and each Lambda container) counts on its own, so only use it for
+ * local development, tests and single-instance deployments.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private readonly counters = new Map<string, Counter>();
+
+  private sweep(now: number) {
+    this.counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    });
+    // Still full: drop the oldest counters (Map keeps insertion order)
+    while (this.counters.size >= MAX_KEYS) this.counters.delete(this.counters.keys().next().value);
+  }
+
+  async increment(key: string, expiresAt: number) {
+    const now = Math.floor(Date.now() / 1000);
+    let counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= now) {
+      if (this.counters.size >= MAX_KEYS) this.sweep(now);
+      counter = { hits: 0, expiresAt };
+      this.counters.set(key, counter);
+    }
+    counter.hits += 1;
+    return counter.hits;
+  }
+}
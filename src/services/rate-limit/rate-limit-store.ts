@@ -0,0 +1,12 @@
+/**
+ * Counts requests per key and time window. Shared by every instance in production, so a limit holds across
+ * Lambda containers rather than per process.
+ */
+export interface RateLimitStore {
+  // Short identifier, e.g. "dynamodb", used in logs and /health
+  readonly name: string;
+
+  // Count one hit for `key` and return the key's hits so far; the counter is dropped after `expiresAt`
+  // (epoch seconds). Keys are per window, so a new window starts a new counter.
+  increment(key: string, expiresAt: number): Promise<number>;
+}
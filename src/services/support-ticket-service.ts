@@ -0,0 +1,203 @@
+import { GetCommand, PutCommand, QueryCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { v4 as uuidv4 } from "uuid";
+import dynamoDocClient from "../config/dynamodb";
+import config from "../config/config";
+import { AppError } from "../utils/error-handler";
+
+const TABLE_NAME = config.supportTickets.tableName;
+// Global secondary indexes on the ticket table, both sorted by createdAt
+const STATUS_INDEX = "status-createdAt-index";
+const EMAIL_INDEX = "email-createdAt-index";
+
+export const TICKET_STATUSES = ["open", "in_progress", "resolved", "closed"] as const;
+export type TicketStatus = (typeof TICKET_STATUSES)[number];
+
+/**
+ * A support request as stored in DynamoDB, keyed by ticketId.
+ */
+export interface SupportTicket {
+  ticketId: string;
+  email?: string; // Omitted for anonymous requests, which keeps them out of the email index
+  userId?: string; // Set when submitted while signed in; the typed email alone proves nothing about the requester
+  message: string;
+  status: TicketStatus;
+  note?: string; // Internal note from support staff, never shown to the requester
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  requestId: string; // Fastify request id of the submission, to correlate with logs
+}
+
+export interface TicketUpdate {
+  status?: TicketStatus;
+  note?: string;
+}
+
+// Without a table, tickets are kept per process (local development)
+const memoryTickets = new Map<string, SupportTicket>();
+
+// DynamoDB pagination keys are handed to clients as opaque cursors
+const encodeCursor = (key: Record<string, any> | undefined) =>
+  key ? Buffer.from(JSON.stringify(key)).toString("base64") : null;
+
+const decodeCursor = (cursor: string | undefined) => {
+  if (!cursor) return undefined;
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64").toString("utf8"));
+  } catch (error) {
+    throw new AppError("Invalid pagination cursor", 400, "INVALID_CURSOR");
+  }
+};
+
+export const supportTicketService = {
+  // record a new support request; the ticket is the system of record, emails only notify
+  async createTicket({
+    email,
+    userId,
+    message,
+    requestId,
+  }: {
+    email?: string;
+    userId?: string;
+    message: string;
+    requestId: string;
+  }) {
+    const now = new Date().toISOString();
+    const ticket: SupportTicket = {
+      ticketId: uuidv4(),
+      email,
+      userId,
+      message,
+      status: "open",
+      createdAt: now,
+      updatedAt: now,
+      requestId,
+    };
+    if (!TABLE_NAME) {
+      memoryTickets.set(ticket.ticketId, ticket);
+      return ticket;
+    }
+    await dynamoDocClient.send(new PutCommand({ TableName: TABLE_NAME, Item: ticket }));
+    return ticket;
+  },
+
+  // newest first when filtered by status; an unfiltered listing is a table scan in no particular order
+  async listTickets({ status, limit = 25, cursor }: { status?: TicketStatus; limit?: number; cursor?: string }) {
+    const exclusiveStartKey = decodeCursor(cursor);
+    if (!TABLE_NAME) {
+      const offset: number = exclusiveStartKey?.offset || 0;
+      const matching: SupportTicket[] = [];
+      memoryTickets.forEach((ticket) => {
+        if (!status || ticket.status === status) matching.push(ticket);
+      });
+      matching.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+      return {
+        tickets: matching.slice(offset, offset + limit),
+        nextCursor: matching.length > offset + limit ? encodeCursor({ offset: offset + limit }) : null,
+      };
+    }
+    const response = status
+      ? await dynamoDocClient.send(
+          new QueryCommand({
+            TableName: TABLE_NAME,
+            IndexName: STATUS_INDEX,
+            KeyConditionExpression: "#status = :status",
+            ExpressionAttributeNames: { "#status": "status" },
+            ExpressionAttributeValues: { ":status": status },
+            ScanIndexForward: false,
+            Limit: limit,
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        )
+      : await dynamoDocClient.send(
+          new ScanCommand({ TableName: TABLE_NAME, Limit: limit, ExclusiveStartKey: exclusiveStartKey })
+        );
+
+    return {
+      tickets: (response.Items || []) as SupportTicket[],
+      nextCursor: encodeCursor(response.LastEvaluatedKey),
+    };
+  },
+
+  async getTicket(ticketId: string) {
+    if (!TABLE_NAME) {
+      const ticket = memoryTickets.get(ticketId);
+      if (!ticket) throw new AppError("Support ticket not found", 404, "TICKET_NOT_FOUND");
+      return ticket;
+    }
+    const { Item } = await dynamoDocClient.send(new GetCommand({ TableName: TABLE_NAME, Key: { ticketId } }));
+    if (!Item) throw new AppError("Support ticket not found", 404, "TICKET_NOT_FOUND");
+    return Item as SupportTicket;
+  },
+
+  // change a ticket's status and/or internal note
+  async updateTicket(ticketId: string, { status, note }: TicketUpdate) {
+    if (!TABLE_NAME) {
+      const ticket = memoryTickets.get(ticketId);
+      if (!ticket) throw new AppError("Support ticket not found", 404, "TICKET_NOT_FOUND");
+      if (status !== undefined) ticket.status = status;
+      if (note !== undefined) ticket.note = note;
+      ticket.updatedAt = new Date().toISOString();
+      return ticket;
+    }
+
+    const names: Record<string, string> = { "#updatedAt": "updatedAt" };
+    const values: Record<string, any> = { ":updatedAt": new Date().toISOString() };
+    const assignments = ["#updatedAt = :updatedAt"];
+    if (status !== undefined) {
+      names["#status"] = "status";
+      values[":status"] = status;
+      assignments.push("#status = :status");
+    }
+    if (note !== undefined) {
+      names["#note"] = "note";
+      values[":note"] = note;
+      assignments.push("#note = :note");
+    }
+
+    try {
+      const { Attributes } = await dynamoDocClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { ticketId },
+          UpdateExpression: `SET ${assignments.join(", ")}`,
+          ConditionExpression: "attribute_exists(ticketId)",
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ReturnValues: "ALL_NEW",
+        })
+      );
+      return Attributes as SupportTicket;
+    } catch (error) {
+      if (error.name === "ConditionalCheckFailedException") {
+        throw new AppError("Support ticket not found", 404, "TICKET_NOT_FOUND");
+      }
+      throw error;
+    }
+  },
+
+  // every ticket submitted from an email address, oldest first (for data exports)
+  async listTicketsForEmail(email: string) {
+    const tickets: SupportTicket[] = [];
+    if (!TABLE_NAME) {
+      memoryTickets.forEach((ticket) => {
+        if (ticket.email === email) tickets.push(ticket);
+      });
+      return tickets.sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+    }
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const response = await dynamoDocClient.send(
+        new QueryCommand({
+          TableName: TABLE_NAME,
+          IndexName: EMAIL_INDEX,
+          KeyConditionExpression: "email = :email",
+          ExpressionAttributeValues: { ":email": email },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+      tickets.push(...((response.Items || []) as SupportTicket[]));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return tickets;
+  },
+};
@@ -0,0 +1,99 @@
+import { GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import dynamoDocClient from "../config/dynamodb";
+import config from "../config/config";
+import { ACCESS_TOKEN_MAX_LIFETIME_SECONDS } from "../config/constants";
+
+/**
+ * Claims of a verified Cognito access token that matter for revocation.
+ */
+export interface RevocableTokenClaims {
+  sub: string;
+  origin_jti?: string; // Shared by every access token minted from the same refresh token
+  iat: number; // Issued-at, in seconds
+  exp: number; // Expiry, in seconds
+}
+
+/**
+ * One revocation, keyed by "origin:<origin_jti>" (one session) or "user:<sub>" (every session issued
+ * before `revokedAt`).
+ */
+interface RevocationEntry {
+  subject: string;
+  revokedAt: number; // Epoch seconds
+  expiresAt: number; // Epoch seconds, once every affected access token has expired; DynamoDB TTL
+}
+
+// Cognito's RevokeToken and GlobalSignOut stop refresh tokens from issuing new access tokens, but access
+// tokens that are already out remain cryptographically valid until they expire. Since the auth plugin
+// verifies tokens locally, we remember what was revoked until the affected access tokens have expired.
+// In production the entries live in TOKEN_REVOCATION_TABLE, so every Lambda container sees them.
+const TABLE_NAME = config.tokenRevocation.tableName;
+
+// Without a table, entries are per process (local development and tests)
+const entries = new Map<string, RevocationEntry>();
+
+const originSubject = (originJti: string) => `origin:${originJti}`;
+const userSubject = (sub: string) => `user:${sub}`;
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+// Drop entries whose tokens can no longer be presented anyway
+const prune = (now: number) => {
+  entries.forEach(({ expiresAt }, subject) => {
+    if (expiresAt <= now) entries.delete(subject);
+  });
+};
+
+const saveEntry = async (entry: RevocationEntry) => {
+  if (!TABLE_NAME) {
+    prune(entry.revokedAt);
+    entries.set(entry.subject, entry);
+    return;
+  }
+  await dynamoDocClient.send(new PutCommand({ TableName: TABLE_NAME, Item: entry }));
+};
+
+const loadEntry = async (subject: string): Promise<RevocationEntry | undefined> => {
+  const now = nowInSeconds();
+  if (!TABLE_NAME) {
+    const entry = entries.get(subject);
+    return entry && entry.expiresAt > now ? entry : undefined;
+  }
+  // Strongly consistent, so a token is rejected as soon as its revocation has been written
+  const { Item } = await dynamoDocClient.send(
+    new GetCommand({ TableName: TABLE_NAME, Key: { subject }, ConsistentRead: true })
+  );
+  // TTL deletion is lazy, so check the expiry ourselves
+  return Item && Item.expiresAt > now ? (Item as RevocationEntry) : undefined;
+};
+
+export const tokenRevocationService = {
+  // revoke the session a single access token belongs to (logout)
+  async revokeSession(claims: RevocableTokenClaims) {
+    if (!claims.origin_jti) return;
+    const now = nowInSeconds();
+    await saveEntry({
+      subject: originSubject(claims.origin_jti),
+      revokedAt: now,
+      expiresAt: Math.max(claims.exp, now),
+    });
+  },
+
+  // revoke every access token issued to a user up to now (global sign-out)
+  async revokeAllSessions(sub: string) {
+    const now = nowInSeconds();
+    await saveEntry({ subject: userSubject(sub), revokedAt: now, expiresAt: now + ACCESS_TOKEN_MAX_LIFETIME_SECONDS });
+  },
+
+  // A failed lookup rejects the request: accepting a possibly revoked token would defeat logout
+  async isRevoked(claims: RevocableTokenClaims): Promise<boolean> {
+    const [session, signOut] = await Promise.all([
+      claims.origin_jti ? loadEntry(originSubject(claims.origin_jti)) : undefined,
+      loadEntry(userSubject(claims.sub)),
+    ]);
+    if (session) return true;
+
+    // Tokens issued in the same second as the sign-out are allowed, so a session re-established
+    // immediately afterwards (e.g. by change-password) is not caught by its own sign-out
+    return !!signOut && claims.iat < signOut.revokedAt;
+  },
+};
@@ -1,27 +1,18 @@
-import {
-  SignUpCommand,
-  AdminUpdateUserAttributesCommand,
-  ConfirmSignUpCommand,
-  GetUserCommand,
-  AuthFlowType,
-  InitiateAuthCommand,
-  ForgotPasswordCommand,
-  ConfirmForgotPasswordCommand,
-  GetUserCommandOutput,
-  ResendConfirmationCodeCommand,
-} from "@aws-sdk/client-cognito-identity-provider";
-import cognitoClient from "../config/cognito";
-import { calculateSecretHash } from "../utils/crypto-utils";
-import { REFRESH_TOKEN_AUTH, SUPPORT_EMAIL } from "../config/constants";
-import { sendEmail } from "./email-service";
-const USER_POOL_ID = process.env.AWS_COGNITO_USER_POOL_ID;
-const CLIENT_ID = process.env.AWS_COGNITO_CLIENT_ID;
-const CLIENT_SECRET = process.env.AWS_COGNITO_CLIENT_SECRET;
-import { AuthError } from "../utils/error-handler";
-// Validate the required environment variables
-if (!CLIENT_ID || !CLIENT_SECRET) {
-  throw new Error("Cognito credentials not found in environment variables");
-}
+import { AttributeType, AuthenticationResultType, ChallengeNameType } from "@aws-sdk/client-cognito-identity-provider";
+import * as jwt from "jsonwebtoken";
+import config from "../config/config";
+import { MFA_ISSUER } from "../config/constants";
+import { sendTemplatedEmail } from "./email-service";
+import { resolveLocale } from "./email/templates";
+import { LoginAttempt, loginGuardService } from "./login-guard-service";
+import { profileCacheService, UserProfile } from "./profile-cache-service";
+import { supportTicketService } from "./support-ticket-service";
+import { RevocableTokenClaims, tokenRevocationService } from "./token-revocation-service";
+import { validateToken } from "../plugins/auth";
+import identityProvider, { AuthResponse } from "./identity";
+import { AppError, AuthError, CatalogError, handleCognitoError } from "../utils/error-handler";
+
+const SUPPORT_EMAIL = config.supportEmail;
 
 interface UserDetails {
   email: string;
@@ -29,59 +20,193 @@ interface UserDetails {
   lastName: string;
 }
 
-const generateSecretHash = (email: string) => calculateSecretHash(CLIENT_ID, CLIENT_SECRET, email);
+// Profile fields a user may change on their own account, mapped to the Cognito attribute they are stored in.
+// To expose another attribute (e.g. "custom:locale"), add it here and to `userUpdateRequestSchema`.
+const UPDATABLE_ATTRIBUTES: Record<string, string> = {
+  firstName: "given_name",
+  lastName: "family_name",
+};
+
+interface ChangePasswordDetails {
+  currentPassword: string;
+  newPassword: string;
+  signOutOtherSessions?: boolean;
+}
+
+// A step Cognito requires before it issues tokens (MFA code, new password, ...)
+export interface AuthChallenge {
+  challengeName: ChallengeNameType;
+  session: string; // Opaque Cognito session that ties the response to this sign-in attempt
+  parameters?: Record<string, string>;
+}
+
+// Either tokens or the next challenge to answer
+export type LoginResult =
+  { tokens: AuthenticationResultType; challenge?: undefined } | { tokens?: undefined; challenge: AuthChallenge };
+
+interface ChallengeResponseDetails {
+  email: string;
+  challengeName: ChallengeNameType;
+  session: string;
+  code?: string;
+  newPassword?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+type UserAttributeUpdates = { [field: string]: string | undefined };
+
+// Account changes reported to the owner by the "securityAlert" email, one template section each
+type SecurityEvent = "mfaEnabled" | "mfaDisabled" | "signedOutEverywhere";
+
+// Turn an InitiateAuth / RespondToAuthChallenge response into tokens or the next challenge
+const toLoginResult = (response: AuthResponse): LoginResult => {
+  if (response.ChallengeName) {
+    return {
+      challenge: {
+        challengeName: response.ChallengeName,
+        session: response.Session,
+        parameters: response.ChallengeParameters,
+      },
+    };
+  }
+  if (!response.AuthenticationResult?.AccessToken) throw new Error("Missing authentication token");
+  return { tokens: response.AuthenticationResult };
+};
+
+// Run a sign-in step, reporting wrong credentials to the login guard and completed sign-ins as a success
+const guardedSignIn = async (
+  email: string,
+  attempt: LoginAttempt,
+  signIn: () => Promise<LoginResult>
+): Promise<LoginResult> => {
+  let result: LoginResult;
+  try {
+    result = await signIn();
+  } catch (error) {
+    if (loginGuardService.isCredentialFailure(error)) await loginGuardService.recordFailure(email, attempt);
+    throw error;
+  }
+  if (result.tokens) await loginGuardService.recordSuccess(email);
+  return result;
+};
+
+// Claims of an access token without verifying it; only use right after Cognito has accepted the token
+const decodeAccessToken = (token: string) => jwt.decode(token) as RevocableTokenClaims | null;
+
+// Security alerts are best-effort: the change has already happened, so a failed email is only logged
+const sendSecurityAlert = async (
+  user: { email: string; firstName: string | null; locale: string | null },
+  event: SecurityEvent,
+  acceptLanguage?: string
+) => {
+  try {
+    await sendTemplatedEmail({
+      to: user.email,
+      from: SUPPORT_EMAIL,
+      template: "securityAlert",
+      locale: resolveLocale(user.locale, acceptLanguage),
+      variables: { firstName: user.firstName, occurredAt: new Date().toISOString(), [event]: true },
+    });
+  } catch (error) {
+    console.error(`Failed to send ${event} security alert:`, error);
+  }
+};
 
 export const userService = {
   async createUser({ email, firstName, lastName, password }: UserDetails & { password: string }) {
-    const command = new SignUpCommand({
-      ClientId: CLIENT_ID,
-      Username: email,
-      Password: password,
-      UserAttributes: [
-        { Name: "email", Value: email },
-        { Name: "given_name", Value: firstName },
-        { Name: "family_name", Value: lastName },
-      ],
-      SecretHash: generateSecretHash(email),
-    });
-    await cognitoClient.send(command);
+    await identityProvider.signUp(email, password, [
+      { Name: "email", Value: email },
+      { Name: "given_name", Value: firstName },
+      { Name: "family_name", Value: lastName },
+    ]);
     return { email, firstName, lastName };
   },
 
   // cognito confirm
-  async confirmUser({ email, confirmationCode }: { email: string; confirmationCode: string }) {
-    const command = new ConfirmSignUpCommand({
-      Username: email,
-      ConfirmationCode: confirmationCode,
-      ClientId: CLIENT_ID,
-      SecretHash: generateSecretHash(email),
-    });
-    await cognitoClient.send(command);
+  async confirmUser({ email, confirmationCode }: { email: string; confirmationCode: string }, acceptLanguage?: string) {
+    await identityProvider.confirmSignUp(email, confirmationCode);
+
+    // The account is usable either way, so a failed welcome email is only logged
+    try {
+      await sendTemplatedEmail({
+        to: email,
+        from: SUPPORT_EMAIL,
+        template: "welcome",
+        locale: resolveLocale(null, acceptLanguage),
+      });
+    } catch (error) {
+      console.error("Failed to send welcome email:", error);
+    }
+  },
+
+  // login, guarded by the login guard: locked accounts and addresses are refused, failures counted, success resets
+  async login({ email, password }: { email: string; password: string }, attempt: LoginAttempt): Promise<LoginResult> {
+    await loginGuardService.check(email, attempt);
+    return guardedSignIn(email, attempt, async () => toLoginResult(await identityProvider.login(email, password)));
   },
 
-  //login
-  async login({ email, password }: { email: string; password: string }) {
-    const secretHash = calculateSecretHash(CLIENT_ID, CLIENT_SECRET, email);
-    const command = new InitiateAuthCommand({
-      ClientId: CLIENT_ID,
-      AuthFlow: AuthFlowType.USER_PASSWORD_AUTH,
-      AuthParameters: { USERNAME: email, PASSWORD: password, SECRET_HASH: secretHash },
+  // answer a challenge returned by login; may resolve to tokens or to a further challenge
+  async respondToAuthChallenge(
+    { email, challengeName, session, code, newPassword, firstName, lastName }: ChallengeResponseDetails,
+    attempt: LoginAttempt
+  ): Promise<LoginResult> {
+    const challengeResponses: Record<string, string> = {};
+
+    switch (challengeName) {
+      case ChallengeNameType.SOFTWARE_TOKEN_MFA:
+      case ChallengeNameType.SMS_MFA:
+        if (!code) throw new AppError("A verification code is required", 400, "MISSING_CHALLENGE_RESPONSE");
+        challengeResponses[`${challengeName}_CODE`] = code;
+        break;
+      case ChallengeNameType.NEW_PASSWORD_REQUIRED:
+        if (!newPassword) throw new AppError("A new password is required", 400, "MISSING_CHALLENGE_RESPONSE");
+        challengeResponses.NEW_PASSWORD = newPassword;
+        // Admin-created users may still be missing required profile attributes
+        if (firstName) challengeResponses["userAttributes.given_name"] = firstName;
+        if (lastName) challengeResponses["userAttributes.family_name"] = lastName;
+        break;
+      default:
+        throw new AppError(`Unsupported challenge: ${challengeName}`, 400, "UNSUPPORTED_CHALLENGE");
+    }
+
+    // Wrong MFA codes count as failed sign-ins too
+    await loginGuardService.check(email, attempt);
+    return guardedSignIn(email, attempt, async () => {
+      try {
+        const response = await identityProvider.respondToAuthChallenge(
+          email,
+          challengeName,
+          session,
+          challengeResponses
+        );
+        return toLoginResult(response);
+      } catch (error) {
+        throw handleCognitoError(error);
+      }
     });
-    const response = await cognitoClient.send(command);
-    if (!response.AuthenticationResult?.AccessToken) throw new Error("Missing authentication token");
-    return response.AuthenticationResult;
   },
+
   // web verify
-  async verifyUser(token: string) {
+  async verifyUser(token: string): Promise<UserProfile> {
     if (!token) throw new AuthError("Authentication required", "MISSING_TOKEN");
 
-    const response: GetUserCommandOutput = await cognitoClient.send(new GetUserCommand({ AccessToken: token }));
+    const response = await identityProvider.getUser(token);
 
     // Use a direct loop instead of Object.fromEntries to avoid extra object creation
     let email: string | null = null;
     let firstName: string | null = null;
     let lastName: string | null = null;
     let userId: string | null = null;
+    let locale: string | null = null;
+
+    // MFA methods the user has enabled, e.g. ["SOFTWARE_TOKEN_MFA"]
+    const mfaMethods = response.UserMFASettingList || [];
+    const mfa = {
+      enabled: mfaMethods.length > 0,
+      preferred: response.PreferredMfaSetting || null,
+      methods: mfaMethods,
+    };
 
     if (response.UserAttributes) {
       for (const attr of response.UserAttributes) {
@@ -98,83 +223,243 @@ export const userService = {
           case "sub":
             userId = attr.Value || null;
             break;
+          case "locale":
+            locale = attr.Value || null;
+            break;
         }
       }
     }
 
-    return { email, firstName, lastName, userId };
+    return { email, firstName, lastName, userId, locale, mfa };
+  },
+
+  // profile for /me, from the profile cache when possible; the caller must have verified the token already
+  async getProfile(userId: string, token: string): Promise<UserProfile> {
+    const cached = await profileCacheService.get(userId);
+    if (cached) return cached;
+
+    const profile = await userService.verifyUser(token);
+    await profileCacheService.set(userId, profile);
+    return profile;
+  },
+
+  // self-service profile update, authorized by the user's own access token
+  async updateUserAttributes(token: string, updates: UserAttributeUpdates) {
+    if (!token) throw new AuthError("Authentication required", "MISSING_TOKEN");
+
+    const userAttributes: AttributeType[] = [];
+    for (const field of Object.keys(updates)) {
+      const attributeName = UPDATABLE_ATTRIBUTES[field];
+      if (attributeName && updates[field] !== undefined) {
+        userAttributes.push({ Name: attributeName, Value: updates[field] });
+      }
+    }
+
+    if (userAttributes.length === 0) {
+      throw new AppError("No updatable attributes provided", 400, "NO_ATTRIBUTES_TO_UPDATE");
+    }
+
+    await identityProvider.updateUserAttributes(token, userAttributes);
+    await profileCacheService.invalidate(decodeAccessToken(token).sub);
+
+    // Return the user as Cognito now stores it
+    return userService.verifyUser(token);
+  },
+
+  // change password for a signed-in user who knows their current password
+  async changePassword(
+    token: string,
+    { currentPassword, newPassword, signOutOtherSessions = false }: ChangePasswordDetails,
+    acceptLanguage?: string
+  ) {
+    if (!token) throw new AuthError("Authentication required", "MISSING_TOKEN");
+
+    // Resolve the account up front: the email is needed for the notification and to re-authenticate below
+    const user = await userService.verifyUser(token);
+
+    try {
+      await identityProvider.changePassword(token, currentPassword, newPassword);
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+
+    // GlobalSignOut revokes every refresh token, including this session's, so sign the caller
+    // back in with the new password and hand the fresh tokens to the controller. If that sign-in
+    // needs a challenge (e.g. MFA) there are no tokens and the caller has to log in again.
+    let tokens: AuthenticationResultType | undefined;
+    if (signOutOtherSessions) {
+      try {
+        await identityProvider.globalSignOut(token);
+        await tokenRevocationService.revokeAllSessions(decodeAccessToken(token).sub);
+      } catch (error) {
+        throw handleCognitoError(error);
+      }
+
+      // The password has changed and every session is gone either way, so a failed sign-in only
+      // means the same as a challenge: no tokens
+      try {
+        // Not through the login guard: the user has just proven the password
+        ({ tokens } = toLoginResult(await identityProvider.login(user.email, newPassword)));
+      } catch (error) {
+        console.error("Failed to sign in again after changing the password:", error);
+      }
+    }
+
+    // The password has already changed, so a failed notification must not fail the request
+    try {
+      await sendTemplatedEmail({
+        to: user.email,
+        from: SUPPORT_EMAIL,
+        template: "passwordChanged",
+        locale: resolveLocale(user.locale, acceptLanguage),
+        variables: {
+          firstName: user.firstName,
+          changedAt: new Date().toISOString(),
+          signedOut: signOutOtherSessions,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to send password change notification:", error);
+    }
+
+    return { sessionRevoked: signOutOtherSessions, tokens };
+  },
+
+  // start TOTP enrollment: Cognito issues a secret the user adds to their authenticator app
+  async associateSoftwareToken(token: string) {
+    if (!token) throw new AuthError("Authentication required", "MISSING_TOKEN");
+
+    const user = await userService.verifyUser(token);
+    try {
+      const secretCode = await identityProvider.associateSoftwareToken(token);
+      const label = encodeURIComponent(`${MFA_ISSUER}:${user.email}`);
+      return {
+        secretCode,
+        otpauthUri: `otpauth://totp/${label}?secret=${secretCode}&issuer=${encodeURIComponent(MFA_ISSUER)}`,
+      };
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+  },
+
+  // confirm enrollment with the first code from the authenticator app
+  async verifySoftwareToken(token: string, code: string, friendlyDeviceName?: string) {
+    if (!token) throw new AuthError("Authentication required", "MISSING_TOKEN");
+
+    let verified: boolean;
+    try {
+      verified = await identityProvider.verifySoftwareToken(token, code, friendlyDeviceName);
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+
+    if (!verified) {
+      throw new CatalogError("CodeMismatchException", 400);
+    }
+  },
+
+  // turn TOTP MFA on or off for the user; enrollment must be verified before it can be enabled
+  async setMfaPreference(token: string, enabled: boolean, acceptLanguage?: string) {
+    if (!token) throw new AuthError("Authentication required", "MISSING_TOKEN");
+
+    try {
+      await identityProvider.setSoftwareTokenMfa(token, enabled);
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+
+    await profileCacheService.invalidate(decodeAccessToken(token).sub);
+    const user = await userService.verifyUser(token);
+    await sendSecurityAlert(user, enabled ? "mfaEnabled" : "mfaDisabled", acceptLanguage);
+    return user.mfa;
   },
 
-  // async updateUserAttributes({ email, firstName, lastName }: UserDetails) {
-  //   const command = new AdminUpdateUserAttributesCommand({
-  //     UserPoolId: USER_POOL_ID,
-  //     Username: email,
-  //     UserAttributes: [
-  //       { Name: "given_name", Value: firstName },
-  //       { Name: "family_name", Value: lastName },
-  //     ],
-  //   });
-  //   await cognitoClient.send(command);
-  // },
+  // logout: revoke this session's refresh token so it can no longer mint access tokens
+  async logout(accessToken: string | undefined, refreshToken: string | undefined) {
+    if (!refreshToken) throw new AuthError("Missing refresh token", "MISSING_REFRESH_TOKEN");
+
+    try {
+      await identityProvider.revokeRefreshToken(refreshToken);
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+
+    // Cognito only vouched for the refresh token, so verify the access token before trusting its claims
+    if (accessToken) {
+      const claims = await validateToken(accessToken).catch((): null => null);
+      if (claims) await tokenRevocationService.revokeSession(claims as RevocableTokenClaims);
+    }
+  },
+
+  // sign out everywhere: revoke every refresh token issued to the user
+  async logoutEverywhere(accessToken: string | undefined, acceptLanguage?: string) {
+    if (!accessToken) throw new AuthError("Authentication required", "MISSING_TOKEN");
+
+    // Look the user up while the token is still valid, for the security alert
+    const user = await userService.verifyUser(accessToken);
+
+    try {
+      await identityProvider.globalSignOut(accessToken);
+    } catch (error) {
+      throw handleCognitoError(error);
+    }
+
+    await tokenRevocationService.revokeAllSessions(decodeAccessToken(accessToken).sub);
+    await sendSecurityAlert(user, "signedOutEverywhere", acceptLanguage);
+  },
 
   async forgotPassword(email: string) {
-    const command = new ForgotPasswordCommand({
-      ClientId: CLIENT_ID,
-      SecretHash: generateSecretHash(email),
-      Username: email,
-    });
-    await cognitoClient.send(command);
+    await identityProvider.forgotPassword(email);
   },
 
   async confirmForgotPassword(email: string, code: string, password: string) {
-    const command = new ConfirmForgotPasswordCommand({
-      ClientId: CLIENT_ID,
-      Username: email,
-      ConfirmationCode: code,
-      Password: password,
-      SecretHash: generateSecretHash(email),
-    });
-    await cognitoClient.send(command);
+    await identityProvider.confirmForgotPassword(email, code, password);
   },
 
   async resendConfirmationCode(email: string) {
-    const command = new ResendConfirmationCodeCommand({
-      ClientId: CLIENT_ID,
-      Username: email,
-      SecretHash: generateSecretHash(email),
-    });
-    await cognitoClient.send(command);
+    await identityProvider.resendConfirmationCode(email);
   },
   async refreshToken(refreshToken: string, email: string) {
-    const command = new InitiateAuthCommand({
-      AuthFlow: REFRESH_TOKEN_AUTH,
-      ClientId: CLIENT_ID,
-      AuthParameters: {
-        REFRESH_TOKEN: refreshToken,
-        SECRET_HASH: generateSecretHash(email),
-      },
-    });
-
-    const response = await cognitoClient.send(command);
-    return response.AuthenticationResult;
+    return identityProvider.refresh(refreshToken, email);
   },
 
-  async submitSupportRequest({ email, message }: { email?: string; message: string }) {
-    const formattedMessage = `Support Request Details:
-      -----------------------
-      From: ${email || "Anonymous"}
-      Message: ${message}
-      Date: ${new Date().toISOString()}
-      `;
+  // store the request as a ticket, then notify support and the requester
+  async submitSupportRequest(
+    { email, userId, message, requestId }: { email?: string; userId?: string; message: string; requestId: string },
+    acceptLanguage?: string
+  ) {
+    const ticket = await supportTicketService.createTicket({ email, userId, message, requestId });
 
-    await sendEmail({
-      to: SUPPORT_EMAIL,
-      from: SUPPORT_EMAIL,
-      subject: `New Support Request ${email ? `from ${email}` : ""}`,
-      text: formattedMessage,
-      ...(email && { replyTo: email }),
-    });
+    // The ticket is the record, so failed notifications are only logged
+    try {
+      await sendTemplatedEmail({
+        to: SUPPORT_EMAIL,
+        from: SUPPORT_EMAIL,
+        template: "supportRequestNotification",
+        locale: "en",
+        variables: { ticketId: ticket.ticketId, email, message, submittedAt: ticket.createdAt },
+        ...(email && { replyTo: email }),
+      });
+    } catch (error) {
+      console.error(`Failed to send support notification for ticket ${ticket.ticketId}:`, error);
+    }
+
+    // Let the requester know we have their message. Only the ticket id is sent: nothing proves the
+    // address belongs to the requester, so the message itself must not be mailed to it
+    if (email) {
+      try {
+        await sendTemplatedEmail({
+          to: email,
+          from: SUPPORT_EMAIL,
+          template: "supportAcknowledgment",
+          locale: resolveLocale(null, acceptLanguage),
+          variables: { ticketId: ticket.ticketId },
+        });
+      } catch (error) {
+        console.error(`Failed to send support acknowledgment for ticket ${ticket.ticketId}:`, error);
+      }
+    }
 
-    return true;
+    return { ticketId: ticket.ticketId };
   },
 };
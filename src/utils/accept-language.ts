@@ -0,0 +1,21 @@
+/**
+ * Language tags of an Accept-Language header, highest q-value first (ties keep header order).
+ * Tags with q=0 are dropped.
+ */
+export function preferredLanguages(acceptLanguage?: string): string[] {
+  if (!acceptLanguage) return [];
+
+  return acceptLanguage
+    .split(",")
+    .map((entry, index) => {
+      const [tag, ...params] = entry.trim().split(";");
+      const q = params.map((param) => param.trim()).filter((param) => param.indexOf("q=") === 0)[0];
+      return { tag, quality: q ? parseFloat(q.slice(2)) : 1, index };
+    })
+    .filter((entry) => entry.tag && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map((entry) => entry.tag);
+}
+
+// "es-MX" -> "es"
+export const primaryLanguage = (tag: string) => tag.trim().split(/[-_]/)[0].toLowerCase();
@@ -6,3 +6,16 @@ export const calculateSecretHash = (clientId: string, clientSecret: string, user
     .update(username + clientId)
     .digest("base64");
 };
+
+// Random, URL-safe token for links sent by email (e.g. cancel account deletion)
+export const generateToken = (bytes = 32): string => crypto.randomBytes(bytes).toString("hex");
+
+// Tokens are stored hashed so a leaked table does not leak usable links
+export const hashToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+// Constant-time comparison of a presented token against a stored hash
+export const matchesTokenHash = (token: string, hash: string): boolean => {
+  const presented = Buffer.from(hashToken(token), "hex");
+  const stored = Buffer.from(hash, "hex");
+  return presented.length === stored.length && crypto.timingSafeEqual(presented, stored);
+};
@@ -0,0 +1,107 @@
+import { CatalogErrorCode } from "./en";
+
+/**
+ * How one AWS exception is answered. The error code defaults to the exception name, which
+ * clients already depend on; exceptions that only mean our configuration or AWS is broken share a
+ * generic code, so internals never reach the client (they are logged instead, as is every 5xx).
+ */
+export interface AwsErrorMapping {
+  statusCode: number;
+  errorCode?: CatalogErrorCode;
+}
+
+// Our user pool or its triggers are misconfigured: nothing the client can fix
+const COGNITO_MISCONFIGURED: AwsErrorMapping = { statusCode: 500, errorCode: "INTERNAL_AUTH_ERROR" };
+// Cognito, or a Lambda trigger it called, failed
+const COGNITO_UNAVAILABLE: AwsErrorMapping = { statusCode: 502, errorCode: "IDENTITY_SERVICE_ERROR" };
+
+//  **Cognito Exceptions**
+// Every exception of @aws-sdk/client-cognito-identity-provider
+export const COGNITO_ERRORS: Record<string, AwsErrorMapping> = {
+  AliasExistsException: { statusCode: 409 },
+  CodeDeliveryFailureException: { statusCode: 502 },
+  CodeMismatchException: { statusCode: 400 },
+  ConcurrentModificationException: { statusCode: 409 },
+  DuplicateProviderException: COGNITO_MISCONFIGURED,
+  EnableSoftwareTokenMFAException: { statusCode: 400 },
+  ExpiredCodeException: { statusCode: 400 },
+  ForbiddenException: { statusCode: 403 }, // Blocked by the user pool's web ACL
+  GroupExistsException: COGNITO_MISCONFIGURED,
+  InternalErrorException: COGNITO_UNAVAILABLE,
+  InvalidEmailRoleAccessPolicyException: COGNITO_MISCONFIGURED,
+  InvalidLambdaResponseException: COGNITO_UNAVAILABLE,
+  InvalidOAuthFlowException: COGNITO_MISCONFIGURED,
+  InvalidParameterException: { statusCode: 400 },
+  InvalidPasswordException: { statusCode: 400 },
+  InvalidSmsRoleAccessPolicyException: COGNITO_MISCONFIGURED,
+  InvalidSmsRoleTrustRelationshipException: COGNITO_MISCONFIGURED,
+  InvalidUserPoolConfigurationException: COGNITO_MISCONFIGURED,
+  LimitExceededException: { statusCode: 429 },
+  MFAMethodNotFoundException: { statusCode: 400 },
+  NotAuthorizedException: { statusCode: 401 },
+  PasswordHistoryPolicyViolationException: { statusCode: 400 },
+  PasswordResetRequiredException: { statusCode: 403 },
+  PreconditionNotMetException: { statusCode: 412 },
+  ResourceNotFoundException: COGNITO_MISCONFIGURED,
+  ScopeDoesNotExistException: COGNITO_MISCONFIGURED,
+  SoftwareTokenMFANotFoundException: { statusCode: 400 },
+  TooManyFailedAttemptsException: { statusCode: 429 },
+  TooManyRequestsException: { statusCode: 429 },
+  UnauthorizedException: { statusCode: 401 },
+  UnexpectedLambdaException: COGNITO_UNAVAILABLE,
+  UnsupportedIdentityProviderException: COGNITO_MISCONFIGURED,
+  UnsupportedOperationException: { statusCode: 400 },
+  UnsupportedTokenTypeException: { statusCode: 400 },
+  UnsupportedUserStateException: { statusCode: 409 },
+  UserImportInProgressException: { statusCode: 409 },
+  UserLambdaValidationException: { statusCode: 400 }, // A pre sign-up/authentication trigger rejected the request
+  UserNotConfirmedException: { statusCode: 403 },
+  UserNotFoundException: { statusCode: 404 },
+  UserPoolAddOnNotEnabledException: COGNITO_MISCONFIGURED,
+  UserPoolTaggingException: COGNITO_MISCONFIGURED,
+  UsernameExistsException: { statusCode: 409 },
+};
+
+// Our sender identities, configuration sets or templates are misconfigured
+const SES_MISCONFIGURED: AwsErrorMapping = { statusCode: 500, errorCode: "EMAIL_DELIVERY_ERROR" };
+// Sending is paused or throttled; it may work again later
+const SES_UNAVAILABLE: AwsErrorMapping = { statusCode: 503, errorCode: "EMAIL_SERVICE_UNAVAILABLE" };
+
+//  **SES Exceptions**
+// Every exception of @aws-sdk/client-ses, plus SES's throttling error
+export const SES_ERRORS: Record<string, AwsErrorMapping> = {
+  AccountSendingPausedException: SES_UNAVAILABLE,
+  AlreadyExistsException: SES_MISCONFIGURED,
+  CannotDeleteException: SES_MISCONFIGURED,
+  ConfigurationSetAlreadyExistsException: SES_MISCONFIGURED,
+  ConfigurationSetDoesNotExistException: SES_MISCONFIGURED,
+  ConfigurationSetSendingPausedException: SES_UNAVAILABLE,
+  CustomVerificationEmailInvalidContentException: SES_MISCONFIGURED,
+  CustomVerificationEmailTemplateAlreadyExistsException: SES_MISCONFIGURED,
+  CustomVerificationEmailTemplateDoesNotExistException: SES_MISCONFIGURED,
+  EventDestinationAlreadyExistsException: SES_MISCONFIGURED,
+  EventDestinationDoesNotExistException: SES_MISCONFIGURED,
+  FromEmailAddressNotVerifiedException: SES_MISCONFIGURED,
+  InvalidCloudWatchDestinationException: SES_MISCONFIGURED,
+  InvalidConfigurationSetException: SES_MISCONFIGURED,
+  InvalidDeliveryOptionsException: SES_MISCONFIGURED,
+  InvalidFirehoseDestinationException: SES_MISCONFIGURED,
+  InvalidLambdaFunctionException: SES_MISCONFIGURED,
+  InvalidPolicyException: SES_MISCONFIGURED,
+  InvalidRenderingParameterException: SES_MISCONFIGURED,
+  InvalidSNSDestinationException: SES_MISCONFIGURED,
+  InvalidSnsTopicException: SES_MISCONFIGURED,
+  InvalidTemplateException: SES_MISCONFIGURED,
+  InvalidTrackingOptionsException: SES_MISCONFIGURED,
+  LimitExceededException: SES_MISCONFIGURED, // Resource quotas, not sending rate
+  MailFromDomainNotVerifiedException: SES_MISCONFIGURED,
+  MessageRejected: { statusCode: 422, errorCode: "EMAIL_REJECTED" },
+  MissingRenderingAttributeException: SES_MISCONFIGURED,
+  ProductionAccessNotGrantedException: SES_MISCONFIGURED,
+  RuleDoesNotExistException: SES_MISCONFIGURED,
+  RuleSetDoesNotExistException: SES_MISCONFIGURED,
+  TemplateDoesNotExistException: SES_MISCONFIGURED,
+  Throttling: SES_UNAVAILABLE, // Maximum sending rate exceeded
+  TrackingOptionsAlreadyExistsException: SES_MISCONFIGURED,
+  TrackingOptionsDoesNotExistException: SES_MISCONFIGURED,
+};
@@ -0,0 +1,44 @@
+// Messages by error code; every locale translates all of them
+const en = {
+  // Cognito
+  AliasExistsException: "This email address is already in use by another account.",
+  CodeDeliveryFailureException: "We could not send the verification code. Please try again later.",
+  CodeMismatchException: "Invalid verification code. Please try again.",
+  ConcurrentModificationException: "This account is being changed by another request. Please try again.",
+  EnableSoftwareTokenMFAException: "Invalid authenticator code. Please try again with a new code.",
+  ExpiredCodeException: "Verification code has expired. Please request a new one.",
+  ForbiddenException: "This request was blocked. Please try again later.",
+  InvalidParameterException: "The request contains an invalid parameter.",
+  InvalidPasswordException:
+    "Password does not meet requirements. It should include uppercase, lowercase, numbers, and special characters.",
+  LimitExceededException: "Operation limit exceeded. Please try again later.",
+  MFAMethodNotFoundException: "No multi-factor authentication method is set up for this account.",
+  NotAuthorizedException: "Incorrect username or password. Please verify your credentials.",
+  PasswordHistoryPolicyViolationException: "This password was used recently. Please choose a different one.",
+  PasswordResetRequiredException: "Password reset required. Please reset your password before logging in.",
+  PreconditionNotMetException: "The account is not in the expected state. Please refresh and try again.",
+  SoftwareTokenMFANotFoundException: "Authenticator app is not set up. Please complete setup first.",
+  TooManyFailedAttemptsException: "Too many failed attempts. Please try again later.",
+  TooManyRequestsException: "Too many requests. Please try again later.",
+  UnauthorizedException: "You are not authorized to perform this action.",
+  UnsupportedOperationException: "This operation is not supported.",
+  UnsupportedTokenTypeException: "This token type is not supported.",
+  UnsupportedUserStateException: "This action is not possible for the account in its current state.",
+  UserImportInProgressException: "Accounts are being imported. Please try again later.",
+  UserLambdaValidationException: "The request was rejected. Please check your details and try again.",
+  UserNotConfirmedException: "User not confirmed. Please check your email for a verification link.",
+  UserNotFoundException: "User not found. Please register or check your email address.",
+  UsernameExistsException: "An account with this email already exists.",
+  INTERNAL_AUTH_ERROR: "An authentication error occurred. Please try again later.",
+  IDENTITY_SERVICE_ERROR: "The authentication service is temporarily unavailable. Please try again later.",
+
+  // SES
+  EMAIL_REJECTED: "The email could not be sent to this address. Please check it and try again.",
+  EMAIL_SERVICE_UNAVAILABLE: "Email sending is temporarily unavailable. Please try again later.",
+  EMAIL_DELIVERY_ERROR: "The email could not be sent. Please try again later.",
+};
+
+export type CatalogErrorCode = keyof typeof en;
+export type ErrorMessages = Record<CatalogErrorCode, string>;
+
+export default en;
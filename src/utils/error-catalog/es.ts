@@ -0,0 +1,44 @@
+import { ErrorMessages } from "./en";
+
+const es: ErrorMessages = {
+  // Cognito
+  AliasExistsException: "Esta dirección de correo electrónico ya está en uso por otra cuenta.",
+  CodeDeliveryFailureException: "No pudimos enviar el código de verificación. Inténtalo de nuevo más tarde.",
+  CodeMismatchException: "Código de verificación no válido. Inténtalo de nuevo.",
+  ConcurrentModificationException: "Otra solicitud está modificando esta cuenta. Inténtalo de nuevo.",
+  EnableSoftwareTokenMFAException: "Código de autenticación no válido. Inténtalo de nuevo con un código nuevo.",
+  ExpiredCodeException: "El código de verificación ha caducado. Solicita uno nuevo.",
+  ForbiddenException: "Esta solicitud fue bloqueada. Inténtalo de nuevo más tarde.",
+  InvalidParameterException: "La solicitud contiene un parámetro no válido.",
+  InvalidPasswordException:
+    "La contraseña no cumple los requisitos. Debe incluir mayúsculas, minúsculas, números y caracteres especiales.",
+  LimitExceededException: "Se superó el límite de operaciones. Inténtalo de nuevo más tarde.",
+  MFAMethodNotFoundException: "Esta cuenta no tiene configurado ningún método de autenticación en dos pasos.",
+  NotAuthorizedException: "Usuario o contraseña incorrectos. Verifica tus credenciales.",
+  PasswordHistoryPolicyViolationException: "Usaste esta contraseña recientemente. Elige una diferente.",
+  PasswordResetRequiredException:
+    "Es necesario restablecer la contraseña. Restablece tu contraseña antes de iniciar sesión.",
+  PreconditionNotMetException: "La cuenta no está en el estado esperado. Actualiza e inténtalo de nuevo.",
+  SoftwareTokenMFANotFoundException: "La aplicación de autenticación no está configurada. Completa la configuración.",
+  TooManyFailedAttemptsException: "Demasiados intentos fallidos. Inténtalo de nuevo más tarde.",
+  TooManyRequestsException: "Demasiadas solicitudes. Inténtalo de nuevo más tarde.",
+  UnauthorizedException: "No tienes autorización para realizar esta acción.",
+  UnsupportedOperationException: "Esta operación no es compatible.",
+  UnsupportedTokenTypeException: "Este tipo de token no es compatible.",
+  UnsupportedUserStateException: "Esta acción no es posible con la cuenta en su estado actual.",
+  UserImportInProgressException: "Se están importando cuentas. Inténtalo de nuevo más tarde.",
+  UserLambdaValidationException: "La solicitud fue rechazada. Revisa tus datos e inténtalo de nuevo.",
+  UserNotConfirmedException:
+    "Usuario no confirmado. Revisa tu correo electrónico para encontrar el enlace de verificación.",
+  UserNotFoundException: "Usuario no encontrado. Regístrate o revisa tu dirección de correo electrónico.",
+  UsernameExistsException: "Ya existe una cuenta con este correo electrónico.",
+  INTERNAL_AUTH_ERROR: "Se produjo un error de autenticación. Inténtalo de nuevo más tarde.",
+  IDENTITY_SERVICE_ERROR: "El servicio de autenticación no está disponible temporalmente. Inténtalo más tarde.",
+
+  // SES
+  EMAIL_REJECTED: "No se pudo enviar el correo a esta dirección. Revísala e inténtalo de nuevo.",
+  EMAIL_SERVICE_UNAVAILABLE: "El envío de correos no está disponible temporalmente. Inténtalo más tarde.",
+  EMAIL_DELIVERY_ERROR: "No se pudo enviar el correo. Inténtalo de nuevo más tarde.",
+};
+
+export default es;
@@ -0,0 +1,23 @@
+import { preferredLanguages, primaryLanguage } from "../accept-language";
+import en, { CatalogErrorCode, ErrorMessages } from "./en";
+import es from "./es";
+
+export { AwsErrorMapping, COGNITO_ERRORS, SES_ERRORS } from "./aws-errors";
+export { CatalogErrorCode, ErrorMessages };
+
+export const DEFAULT_LOCALE = "en";
+
+// Add a locale by creating its catalog next to en.ts and listing it here
+export const catalogs: Record<string, ErrorMessages> = { en, es };
+
+/**
+ * Message for an error code in the first supported language of an Accept-Language header,
+ * else in the default locale.
+ */
+export function catalogMessage(errorCode: CatalogErrorCode, acceptLanguage?: string): string {
+  for (const tag of preferredLanguages(acceptLanguage)) {
+    const catalog = catalogs[primaryLanguage(tag)];
+    if (catalog) return catalog[errorCode];
+  }
+  return catalogs[DEFAULT_LOCALE][errorCode];
+}
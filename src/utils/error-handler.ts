@@ -1,6 +1,8 @@
 // src/utils/error-handler.ts
 
-import { FastifyReply } from "fastify";
+import { FastifyError, FastifyReply } from "fastify";
+import config from "../config/config";
+import { AwsErrorMapping, catalogMessage, CatalogErrorCode, COGNITO_ERRORS, SES_ERRORS } from "./error-catalog";
 
 /**
  * Custom base error class that extends JavaScript's built-in Error.
@@ -42,52 +44,180 @@ export class AuthError extends AppError {
   }
 }
 
+/**
+ * Error for a request refused until a lock or limit expires.
+ * Sent with a `Retry-After` header telling the client when to try again.
+ */
+export class RetryLaterError extends AppError {
+  retryAfterSeconds: number; // Seconds until the request may succeed
+
+  /**
+   * Constructs a RetryLaterError instance.
+   * @param {string} message - A human-readable error message.
+   * @param {number} statusCode - HTTP status code (e.g. 423 or 429).
+   * @param {string} errorCode - Internal error code.
+   * @param {number} retryAfterSeconds - Seconds until the client may retry.
+   */
+  constructor(message: string, statusCode: number, errorCode: string, retryAfterSeconds: number) {
+    super(message, statusCode, errorCode);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Error for a request that failed schema validation.
+ * Sent with the raw validation errors (legacy shape) or field-level `errors` (problem details).
+ */
+export class ValidationError extends AppError {
+  validation: FastifyError["validation"]; // Errors reported by the schema validator
+  validationContext?: FastifyError["validationContext"]; // Part of the request that failed, e.g. "body"
+
+  /**
+   * Constructs a ValidationError instance from a Fastify validation failure.
+   * @param {FastifyError} error - The error Fastify raised for the failed validation.
+   */
+  constructor(error: FastifyError) {
+    super("Validation error", 400, "VALIDATION_ERROR");
+    this.validation = error.validation;
+    this.validationContext = error.validationContext;
+  }
+}
+
+/**
+ * Error whose message comes from the error catalog, so it is sent in the client's language.
+ */
+export class CatalogError extends AppError {
+  errorCode: CatalogErrorCode;
+
+  /**
+   * Constructs a CatalogError instance; the message is the code's default-locale message.
+   * @param {CatalogErrorCode} errorCode - Error code with messages in the catalog.
+   * @param {number} statusCode - HTTP status code.
+   */
+  constructor(errorCode: CatalogErrorCode, statusCode: number) {
+    super(catalogMessage(errorCode), statusCode, errorCode);
+  }
+}
+
+//  **Route Error Overrides**
+// A route can answer an error code differently, e.g. so an error does not reveal whether an account exists:
+// `config: { errorOverrides: { UserNotFoundException: { respondAsSuccess: true } } }`
+export interface ErrorOverride {
+  statusCode?: number;
+  errorCode?: CatalogErrorCode; // Sent with this code's catalog message instead
+  respondAsSuccess?: boolean; // Answer 200 with an empty object, as if the request had succeeded
+}
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    errorOverrides?: Record<string, ErrorOverride>;
+  }
+}
+
+// Maps an AWS exception by its name through one service's catalog
+const mapAwsError = (error: any, catalog: Record<string, AwsErrorMapping>, service: string): AppError | undefined => {
+  // Already mapped, e.g. a lockout raised before Cognito was called
+  if (error instanceof AppError) return error;
+
+  const errorType = error?.__type || error?.name || "UnknownError";
+  const mapping = catalog[errorType];
+  if (!mapping || mapping.statusCode >= 500) {
+    // Log the full error for debugging, while returning a sanitized message to the user
+    console.error(`${mapping ? "Failed" : "Unhandled"} ${service} error:`, error);
+  }
+  if (!mapping) return undefined;
+
+  return new CatalogError(mapping.errorCode || (errorType as CatalogErrorCode), mapping.statusCode);
+};
+
 /**
  * Maps AWS Cognito error responses to our custom AppError format.
- * Ensures consistent error messages across authentication failures.
+ * Every Cognito exception has a status code and stable error code in the error catalog; unknown
+ * errors become a 500 INTERNAL_AUTH_ERROR.
  *
  * @param {any} error - The raw error object from Cognito.
  * @returns {AppError} - A mapped AppError instance with the appropriate message and status code.
  */
-export const handleCognitoError = (error: any): AppError => {
-  // Extract the error type from the Cognito response
-  const errorType = error?.__type || error?.name || "UnknownError";
+export const handleCognitoError = (error: any): AppError =>
+  mapAwsError(error, COGNITO_ERRORS, "Cognito") || new CatalogError("INTERNAL_AUTH_ERROR", 500);
 
-  switch (errorType) {
-    case "UserNotConfirmedException":
-      return new AppError("User not confirmed. Please check your email for a verification link.", 403, errorType);
-    case "NotAuthorizedException":
-      return new AppError("Incorrect username or password. Please verify your credentials.", 401, errorType);
-    case "UserNotFoundException":
-      return new AppError("User not found. Please register or check your email address.", 404, errorType);
-    case "PasswordResetRequiredException":
-      return new AppError("Password reset required. Please reset your password before logging in.", 403, errorType);
-    case "CodeMismatchException":
-      return new AppError("Invalid verification code. Please try again.", 400, errorType);
-    case "ExpiredCodeException":
-      return new AppError("Verification code has expired. Please request a new one.", 400, errorType);
-    case "TooManyRequestsException":
-      return new AppError("Too many requests. Please try again later.", 429, errorType);
-    case "InvalidPasswordException":
-      return new AppError(
-        "Password does not meet requirements. It should include uppercase, lowercase, numbers, and special characters.",
-        400,
-        errorType
-      );
-    case "UsernameExistsException":
-      return new AppError("An account with this email already exists.", 409, errorType);
-    case "LimitExceededException":
-      return new AppError("Operation limit exceeded. Please try again later.", 429, errorType);
-    default:
-      // Log the full error for debugging, while returning a sanitized message to the user
-      console.error("Unhandled Cognito error:", error);
-      return new AppError("An authentication error occurred. Please try again later.", 500, "INTERNAL_AUTH_ERROR");
-  }
-};
+/**
+ * Maps AWS SES error responses to our custom AppError format, like `handleCognitoError`.
+ * Unknown errors become a 500 EMAIL_DELIVERY_ERROR.
+ *
+ * @param {any} error - The raw error object from SES.
+ * @returns {AppError} - A mapped AppError instance with the appropriate message and status code.
+ */
+export const handleSesError = (error: any): AppError =>
+  mapAwsError(error, SES_ERRORS, "SES") || new CatalogError("EMAIL_DELIVERY_ERROR", 500);
+
+/**
+ * Message of a mapped error for the client: catalog errors in the first supported language of the
+ * Accept-Language header, others as thrown.
+ */
+export const errorMessage = (error: AppError, acceptLanguage?: string): string =>
+  error instanceof CatalogError ? catalogMessage(error.errorCode, acceptLanguage) : error.message;
+
+//  **Problem Details (RFC 7807)**
+// - Clients listing `application/problem+json` in their Accept header get errors as problem details; all
+//   others keep the `{ error, errorCode, requestId }` shape.
+// - `type` is a URI per error code under `<API_BASE_URL>/problems/`, `title` is the same for every occurrence
+//   of a code, `detail` is this occurrence's (localized) message and `instance` the request ID.
+const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+interface FieldError {
+  in?: string; // Part of the request: "body", "querystring", "params" or "headers"
+  pointer: string; // JSON pointer to the field within that part, e.g. "/user/email"
+  detail: string;
+}
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  errorCode: string; // Same code as the legacy shape
+  errors?: FieldError[]; // Validation errors only
+}
+
+// Whether the Accept header lists problem+json (with a non-zero q-value)
+const acceptsProblemDetails = (accept?: string) =>
+  !!accept &&
+  accept.split(",").some((range) => {
+    const [mediaType, ...params] = range.split(";").map((part) => part.trim());
+    const q = params.filter((param) => param.indexOf("q=") === 0)[0];
+    return mediaType.toLowerCase() === PROBLEM_CONTENT_TYPE && (!q || parseFloat(q.slice(2)) > 0);
+  });
+
+// "NotAuthorizedException" -> "Not Authorized", "ACCOUNT_LOCKED" -> "Account Locked"
+const problemTitle = (errorCode: string) =>
+  errorCode === errorCode.toUpperCase()
+    ? errorCode
+        .toLowerCase()
+        .split("_")
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(" ")
+    : errorCode
+        .replace(/Exception$/, "")
+        .replace(/([a-z])([A-Z])/g, "$1 $2")
+        .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2");
+
+const fieldErrors = (error: ValidationError): FieldError[] =>
+  (error.validation || []).map((issue) => {
+    // Missing and unexpected properties are reported on their parent object
+    const property = issue.params.missingProperty ?? issue.params.additionalProperty;
+    return {
+      in: error.validationContext,
+      pointer: property ? `${issue.instancePath}/${property}` : issue.instancePath,
+      detail: issue.message,
+    };
+  });
 
 /**
  * Handles error responses by formatting errors into a structured JSON response.
- * Ensures consistent error handling across the application.
+ * Ensures consistent error handling across the application: this is the only place error bodies are built,
+ * as problem details or in the legacy shape depending on the Accept header.
  *
  * @param {FastifyReply} reply - The Fastify response object.
  * @param {any} error - The error object to handle.
@@ -95,21 +225,18 @@ export const handleCognitoError = (error: any): AppError => {
  * @returns {FastifyReply} - The formatted HTTP response.
  */
 export const sendErrorResponse = (reply: FastifyReply, error: any, requestId?: string): FastifyReply => {
-  // Identify authentication errors by message content if not already an AuthError
-  if (
-    !(error instanceof AppError) &&
-    (error.message?.toLowerCase().includes("unauthorized") || error.message?.toLowerCase().includes("token"))
-  ) {
-    error = new AuthError(error.message || "Authentication required", "AUTH_REQUIRED");
-  }
-
-  // Convert error into an AppError if it's not already
+  // Convert error into an AppError if it's not already. Identity provider exceptions go through the catalog
+  // first, so they keep their own code and localized message; only errors it does not know are classified
+  // by their message as a last resort.
+  const rawMessage: string = error?.message?.toLowerCase() || "";
   const appError =
     error instanceof AppError
       ? error // If already an instance of AppError, use it directly
-      : error?.__type
-      ? handleCognitoError(error) // Handle Cognito-specific errors
-      : new AppError(error.message || "An unexpected error occurred", 500); // Default fallback error
+      : error?.__type || COGNITO_ERRORS[error?.name]
+        ? handleCognitoError(error) // Handle Cognito-specific errors
+        : rawMessage.includes("unauthorized") || rawMessage.includes("token")
+          ? new AuthError(error.message, "AUTH_REQUIRED") // Unmapped authentication failures
+          : new AppError(error?.message || "An unexpected error occurred", 500); // Default fallback error
 
   // Log errors with more structured format
   console.error(`[ERROR] ${appError.statusCode} - ${appError.message} (Request ID: ${requestId || "N/A"})`, {
@@ -117,10 +244,45 @@ export const sendErrorResponse = (reply: FastifyReply, error: any, requestId?: s
     stack: appError.stack,
   });
 
+  // The route may answer this error differently (logged above as it really happened)
+  const override = reply.request.routeOptions.config?.errorOverrides?.[appError.errorCode];
+  if (override?.respondAsSuccess) {
+    return reply.code(200).send({});
+  }
+  const statusCode = override?.statusCode || appError.statusCode;
+  const errorCode = override?.errorCode || appError.errorCode;
+
+  if (appError instanceof RetryLaterError) {
+    reply.header("Retry-After", appError.retryAfterSeconds);
+  }
+
+  // Catalog messages are sent in the client's language
+  const acceptLanguage = reply.request.headers["accept-language"];
+  const message = override?.errorCode
+    ? catalogMessage(override.errorCode, acceptLanguage)
+    : errorMessage(appError, acceptLanguage);
+
+  const id = requestId || reply.request.id;
+
+  if (acceptsProblemDetails(reply.request.headers.accept)) {
+    const problem: ProblemDetails = {
+      type: `${config.apiBaseUrl}/problems/${errorCode}`,
+      title: problemTitle(errorCode),
+      status: statusCode,
+      detail: message,
+      instance: id,
+      errorCode,
+      errors: appError instanceof ValidationError ? fieldErrors(appError) : undefined,
+    };
+    // Sent pre-serialized: route response schemas describe the legacy shape and would strip these fields
+    return reply.code(statusCode).type(PROBLEM_CONTENT_TYPE).send(JSON.stringify(problem));
+  }
+
   // Send the structured error response
-  return reply.code(appError.statusCode).send({
-    error: appError.message, // Human-readable error message
-    errorCode: appError.errorCode, // Internal error code
-    requestId, // Include request ID for easier debugging
+  return reply.code(statusCode).send({
+    error: message, // Human-readable error message
+    errorCode, // Internal error code
+    details: appError instanceof ValidationError ? appError.validation : undefined, // Raw validation errors
+    requestId: id, // Include request ID for easier debugging
   });
 };
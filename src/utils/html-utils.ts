@@ -0,0 +1,13 @@
+/**
+ * Escapes text for safe inclusion in HTML element content and quoted attribute values
+ * @param value Untrusted text
+ * @returns The text with HTML special characters replaced by entities
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
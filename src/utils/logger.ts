@@ -1,17 +1,18 @@
 // src/utils/logger.ts
 
 import pino, { LoggerOptions, Level } from "pino";
+import config from "../config/config";
 
 // Logger configuration options
 export const loggerOptions: LoggerOptions = {
-  // Set the log level from environment variable, defaulting to "info"
-  level: process.env.LOG_LEVEL || "info",
+  // Set the log level from LOG_LEVEL, defaulting to "info"
+  level: config.logLevel,
 
   // Redact sensitive fields from logs to prevent exposure of sensitive information
   redact: ["req.headers.authorization", "req.headers.cookie", "password", "passwordConfirmation"],
 
   // Use "pino-pretty" for better log formatting in non-production environments
-  transport: process.env.NODE_ENV !== "production" ? { target: "pino-pretty" } : undefined,
+  transport: config.env !== "production" ? { target: "pino-pretty" } : undefined,
 
   // Customize the log format to include the log level as an object property
   formatters: {
@@ -57,6 +58,15 @@ export const logRequest = (req: any, context?: string) => {
   });
 };
 
+// Helper function to record security-relevant user actions (e.g. data exports) for auditing
+export const logAudit = (event: string, details: Record<string, unknown>) => {
+  logger.info({
+    audit: true, // Lets audit entries be filtered out of the regular request logs
+    event, // What happened, e.g. "data_export"
+    ...details, // Who did it, from where, and the outcome
+  });
+};
+
 // Create the logger instance with the specified options
 const logger = pino(loggerOptions);
 
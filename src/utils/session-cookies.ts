@@ -0,0 +1,95 @@
+import { CookieSerializeOptions } from "@fastify/cookie";
+import { AuthenticationResultType } from "@aws-sdk/client-cognito-identity-provider";
+import { FastifyReply, FastifyRequest } from "fastify";
+import config from "../config/config";
+import { AUTH_TOKEN, CSRF_HEADER, CSRF_TOKEN, REFRESH_TOKEN } from "../config/constants";
+import { generateToken } from "./crypto-utils";
+
+const EMAIL = "email"; // Needed with the refresh token: Cognito's secret hash is computed over the username
+
+const HOST_PREFIX = "__Host-";
+const policy = config.session;
+
+// Browsers reject "__Host-" and SameSite=None cookies that are not Secure
+const secure = policy.secure || policy.hostPrefix || policy.sameSite === "none";
+
+const cookieName = (name: string) => (policy.hostPrefix ? HOST_PREFIX + name : name);
+
+// The configured domain the request host belongs to; none means a host-only cookie
+const cookieDomain = (request: FastifyRequest): string | undefined => {
+  if (policy.hostPrefix) return undefined;
+  const host = request.hostname.toLowerCase();
+  return policy.cookieDomains.find((domain) => {
+    const bare = domain.replace(/^\./, "").toLowerCase();
+    return host === bare || host.slice(-(bare.length + 1)) === "." + bare;
+  });
+};
+
+// Options shared by every session cookie; clearing must repeat domain and path or the browser keeps the cookie
+const baseOptions = (request: FastifyRequest): CookieSerializeOptions => ({
+  httpOnly: true,
+  secure,
+  sameSite: policy.sameSite,
+  path: "/",
+  domain: cookieDomain(request),
+});
+
+/**
+ * The session cookies (access token, refresh token, email, CSRF token), with the options and lifetimes from
+ * `config.session`.
+ * Every route that reads, sets or clears them goes through here.
+ */
+export const sessionCookies = {
+  // Session cookies sent with the request
+  read(request: FastifyRequest) {
+    return {
+      accessToken: request.cookies[cookieName(AUTH_TOKEN)],
+      refreshToken: request.cookies[cookieName(REFRESH_TOKEN)],
+      email: request.cookies[cookieName(EMAIL)],
+      csrfToken: request.cookies[cookieName(CSRF_TOKEN)],
+    };
+  },
+
+  // Store tokens from a sign-in or refresh. A refresh only returns a refresh token when Cognito rotated it,
+  // and the email is only given on sign-in, which also rotates the CSRF token.
+  set(request: FastifyRequest, reply: FastifyReply, tokens: AuthenticationResultType, email?: string) {
+    const options = baseOptions(request);
+
+    // The access cookie lives exactly as long as the token it holds
+    reply.setCookie(cookieName(AUTH_TOKEN), tokens.AccessToken, { ...options, maxAge: tokens.ExpiresIn });
+    if (tokens.RefreshToken) {
+      reply.setCookie(cookieName(REFRESH_TOKEN), tokens.RefreshToken, {
+        ...options,
+        maxAge: policy.refreshTokenTtlSeconds,
+      });
+    }
+    if (email) {
+      reply.setCookie(cookieName(EMAIL), email, { ...options, maxAge: policy.refreshTokenTtlSeconds });
+      this.issueCsrfToken(request, reply, true);
+    }
+  },
+
+  // Hand the client the session's CSRF token, creating one if needed. The cookie is readable by scripts on
+  // the cookie's domain; the response header serves clients on other origins.
+  issueCsrfToken(request: FastifyRequest, reply: FastifyReply, rotate = false): string {
+    const current = this.read(request).csrfToken;
+    const csrfToken = !rotate && current ? current : generateToken();
+    if (csrfToken !== current) {
+      reply.setCookie(cookieName(CSRF_TOKEN), csrfToken, {
+        ...baseOptions(request),
+        httpOnly: false,
+        maxAge: policy.refreshTokenTtlSeconds,
+      });
+    }
+    reply.header(CSRF_HEADER, csrfToken);
+    return csrfToken;
+  },
+
+  clear(request: FastifyRequest, reply: FastifyReply) {
+    const options = baseOptions(request);
+    reply.clearCookie(cookieName(AUTH_TOKEN), options);
+    reply.clearCookie(cookieName(REFRESH_TOKEN), options);
+    reply.clearCookie(cookieName(EMAIL), options);
+    reply.clearCookie(cookieName(CSRF_TOKEN), { ...options, httpOnly: false });
+  },
+};